@@ -4,14 +4,20 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { config, validateConfig } from '../config/config';
 import { EmbeddingService } from '../services/embeddingService';
-import { RedisVectorStoreService } from '../services/redisVectorStore';
+import { createEmbeddingProvider } from '../services/embeddingProvider';
+import { createEmbeddingCache } from '../services/embeddingCache';
+import { SearchMode, VectorStore, createVectorStore } from '../services/vectorStore';
 import { SemanticSearchService } from '../services/semanticSearchService';
+import { MetadataFilter, buildFilterExpression } from '../services/redisIndexSchema';
 import { PromptService } from '../services/promptService';
+import { formatBreadcrumb } from '../utils/documentStructure';
+
+const SEARCH_MODES: SearchMode[] = ['vector', 'lexical', 'hybrid'];
 
 export class APIServer {
   private app: express.Application;
   private semanticSearchService!: SemanticSearchService;
-  private vectorStoreService!: RedisVectorStoreService;
+  private vectorStoreService!: VectorStore;
   private embeddingService!: EmbeddingService;
   private port: number;
 
@@ -19,33 +25,42 @@ export class APIServer {
     this.app = express();
     this.port = port;
     
-    // Inicializar serviços
-    this.initializeServices();
-    
-    // Configurar middleware
+    // Configurar middleware (os serviços são inicializados em start())
     this.setupMiddleware();
     
     // Configurar rotas
     this.setupRoutes();
   }
 
-  private initializeServices(): void {
+  private async initializeServices(): Promise<void> {
     // Validar configurações
     validateConfig();
+    // Um único provedor de embeddings: os documentos e as perguntas são vetorizados pelo mesmo modelo
+    const embeddingCache = createEmbeddingCache(config.embeddingCache);
+    const embeddingProvider = createEmbeddingProvider(config.embedding, embeddingCache);
     
     // Inicializar serviços
     this.embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
+      provider: embeddingProvider,
     });
     
-    this.vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    this.vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
+      // Depois de uma migração de modelo, as buscas passam a usar o modelo da versão ativa sem reiniciar a API
+      providerForVersion: version => createEmbeddingProvider(
+        { ...config.embedding, provider: version.provider, model: version.model, dimensions: version.dimensions },
+        embeddingCache
+      ),
     });
+    await this.vectorStoreService.ready();
     
     // Inicializar PromptService
     const promptService = new PromptService({
@@ -121,7 +136,14 @@ export class APIServer {
     // Busca semântica
     this.app.post('/search', async (req, res) => {
       try {
-        const { query, maxResults = 5, scoreThreshold = 0.8, includeScore = true } = req.body;
+        const {
+          query,
+          maxResults = 5,
+          scoreThreshold = 0.8,
+          includeScore = true,
+          expandToParent = false,
+          mode = config.search.mode
+        } = req.body;
         
         if (!query || typeof query !== 'string' || query.trim() === '') {
           return res.status(400).json({
@@ -131,10 +153,20 @@ export class APIServer {
           });
         }
 
+        if (!SEARCH_MODES.includes(mode)) {
+          return res.status(400).json({
+            success: false,
+            error: `mode deve ser ${SEARCH_MODES.join(', ')}`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
         const results = await this.semanticSearchService.search(query, {
           maxResults: Math.min(maxResults, 20), // Limitar a 20 resultados
           scoreThreshold: Math.max(0, Math.min(scoreThreshold, 1)), // Entre 0 e 1
-          includeScore
+          includeScore,
+          expandToParent: Boolean(expandToParent),
+          mode
         });
 
         res.json({
@@ -144,14 +176,18 @@ export class APIServer {
             results: results.map(result => ({
               content: result.document.pageContent,
               metadata: result.document.metadata,
+              breadcrumb: formatBreadcrumb(result.document.metadata),
               score: result.score,
-              relevance: result.relevance
+              relevance: result.relevance,
+              matchedChunkIds: result.matchedChunks?.map(chunk => chunk.metadata.id)
             })),
             totalResults: results.length,
             searchOptions: {
               maxResults,
               scoreThreshold,
-              includeScore
+              includeScore,
+              expandToParent,
+              mode
             }
           },
           timestamp: new Date().toISOString()
@@ -174,8 +210,10 @@ export class APIServer {
           maxResults = 5, 
           scoreThreshold = 0.8, 
           includeScore = true,
+          expandToParent = false,
           filters = {},
-          sortBy = 'score'
+          sortBy = 'score',
+          mode = config.search.mode
         } = req.body;
         
         if (!query || typeof query !== 'string' || query.trim() === '') {
@@ -186,21 +224,42 @@ export class APIServer {
           });
         }
 
-        // Implementar filtros avançados se necessário
-        const results = await this.semanticSearchService.search(query, {
+        if (!SEARCH_MODES.includes(mode)) {
+          return res.status(400).json({
+            success: false,
+            error: `mode deve ser ${SEARCH_MODES.join(', ')}`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        // Filtros viram o pré-filtro da consulta KNN (ver MetadataFilter); um filtro inválido é erro do cliente
+        if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+          return res.status(400).json({
+            success: false,
+            error: 'filters deve ser um objeto',
+            timestamp: new Date().toISOString()
+          });
+        }
+        try {
+          buildFilterExpression(filters);
+        } catch (error) {
+          return res.status(400).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Filtro inválido',
+            timestamp: new Date().toISOString()
+          });
+        }
+        const filterByMetadata: MetadataFilter | undefined = Object.keys(filters).length > 0 ? filters : undefined;
+
+        const filteredResults = await this.semanticSearchService.search(query, {
           maxResults: Math.min(maxResults, 20),
           scoreThreshold: Math.max(0, Math.min(scoreThreshold, 1)),
-          includeScore
+          includeScore,
+          expandToParent: Boolean(expandToParent),
+          filterByMetadata,
+          mode
         });
 
-        // Aplicar filtros adicionais se necessário
-        let filteredResults = results;
-        if (filters.fileName) {
-          filteredResults = filteredResults.filter(result => 
-            result.document.metadata.fileName?.includes(filters.fileName)
-          );
-        }
-
         res.json({
           success: true,
           data: {
@@ -208,16 +267,20 @@ export class APIServer {
             results: filteredResults.map(result => ({
               content: result.document.pageContent,
               metadata: result.document.metadata,
+              breadcrumb: formatBreadcrumb(result.document.metadata),
               score: result.score,
-              relevance: result.relevance
+              relevance: result.relevance,
+              matchedChunkIds: result.matchedChunks?.map(chunk => chunk.metadata.id)
             })),
             totalResults: filteredResults.length,
             searchOptions: {
               maxResults,
               scoreThreshold,
               includeScore,
+              expandToParent,
               filters,
-              sortBy
+              sortBy,
+              mode
             }
           },
           timestamp: new Date().toISOString()
@@ -235,7 +298,7 @@ export class APIServer {
     // Pergunta contextualizada (usando PromptTemplate)
     this.app.post('/ask', async (req, res) => {
       try {
-        const { question, maxResults = 5, scoreThreshold = 0.8 } = req.body;
+        const { question, maxResults = 5, scoreThreshold = 0.8, expandToParent = true } = req.body;
         
         if (!question || typeof question !== 'string' || question.trim() === '') {
           return res.status(400).json({
@@ -247,7 +310,8 @@ export class APIServer {
 
         const response = await this.semanticSearchService.askQuestion(question, {
           maxResults,
-          scoreThreshold
+          scoreThreshold,
+          expandToParent: Boolean(expandToParent)
         });
 
         res.json({
@@ -261,6 +325,7 @@ export class APIServer {
             searchResults: response.searchResults.map(result => ({
               content: result.document.pageContent,
               metadata: result.document.metadata,
+              breadcrumb: formatBreadcrumb(result.document.metadata),
               score: result.score,
               relevance: result.relevance
             }))
@@ -280,7 +345,7 @@ export class APIServer {
     // Resposta contextualizada (apenas resposta, sem detalhes da busca)
     this.app.post('/answer', async (req, res) => {
       try {
-        const { question, maxResults = 5, scoreThreshold = 0.8 } = req.body;
+        const { question, maxResults = 5, scoreThreshold = 0.8, expandToParent = true } = req.body;
         
         if (!question || typeof question !== 'string' || question.trim() === '') {
           return res.status(400).json({
@@ -292,7 +357,8 @@ export class APIServer {
 
         const response = await this.semanticSearchService.generateContextualAnswer(question, {
           maxResults,
-          scoreThreshold
+          scoreThreshold,
+          expandToParent: Boolean(expandToParent)
         });
 
         res.json({
@@ -325,7 +391,7 @@ export class APIServer {
         endpoints: {
           'GET /health': 'Verificar status dos serviços',
           'GET /stats': 'Obter estatísticas do sistema',
-          'POST /search': 'Busca semântica básica',
+          'POST /search': 'Busca semântica básica (mode: vector, lexical ou hybrid)',
           'POST /search/advanced': 'Busca semântica com filtros avançados',
           'POST /ask': 'Pergunta contextualizada com PromptTemplate (resposta completa)',
           'POST /answer': 'Resposta contextualizada simples (apenas resposta)',
@@ -342,6 +408,15 @@ export class APIServer {
               includeScore: true
             }
           },
+          hybridSearch: {
+            method: 'POST',
+            url: '/search',
+            body: {
+              query: 'Object.defineProperty getters',
+              maxResults: 5,
+              mode: 'hybrid'
+            }
+          },
           ask: {
             method: 'POST',
             url: '/ask',
@@ -382,6 +457,9 @@ export class APIServer {
 
   async start(): Promise<void> {
     try {
+      // Conecta ao Redis antes de aceitar requisições (falha aqui se o Redis estiver fora)
+      await this.initializeServices();
+
       // Verificar saúde dos serviços antes de iniciar
       const healthCheck = await this.semanticSearchService.healthCheck();
       if (!healthCheck.vectorStore || !healthCheck.embedding || !healthCheck.redis) {
@@ -403,7 +481,9 @@ export class APIServer {
 
   async stop(): Promise<void> {
     try {
-      await this.vectorStoreService.closeConnection();
+      // Os serviços não existem se start() falhou antes de inicializá-los
+      await this.vectorStoreService?.closeConnection();
+      await this.embeddingService?.closeConnection();
       console.log('🔌 Conexões fechadas');
     } catch (error) {
       console.error('❌ Erro ao fechar conexões:', error);
@@ -1,37 +1,177 @@
 import dotenv from 'dotenv';
+import type { ChunkFormat } from '../utils/pdfProcessor';
+import type { ChunkSizeUnit } from '../utils/tokenizer';
+import type { EmbeddingProviderType } from '../services/embeddingProvider';
+import type { EmbeddingCacheBackend } from '../services/embeddingCache';
+import type { VectorDataType } from '../utils/vectorEncoding';
+import type { VectorDistanceMetric, VectorIndexAlgorithm } from '../services/redisIndexSchema';
+import type { SearchMode, VectorStoreBackend } from '../services/vectorStore';
+import type { FusionMethod } from '../utils/rankFusion';
 
 dotenv.config();
 
+const chunkUnit = (process.env.CHUNK_UNIT || 'tokens') as ChunkSizeUnit;
+const embeddingProvider = (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderType;
+
 export const config = {
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
-    embeddingModel: process.env.EMBEDDING_MODEL || 'text-embedding-ada-002',
+  },
+  // Provedor de embeddings usado na ingestão e nas consultas (openai, openai-compatible ou hash)
+  embedding: {
+    provider: embeddingProvider,
+    model: process.env.EMBEDDING_MODEL || 'text-embedding-ada-002',
+    // Servidores compatíveis (ex: Ollama) podem não exigir chave; na OpenAI vale OPENAI_API_KEY
+    apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || '',
+    baseUrl: process.env.EMBEDDING_BASE_URL || '',
+    // 0 = dimensão padrão do modelo
+    dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '0'),
+    // Preço em US$ por 1M tokens para o --dry-run (padrão: tabela dos modelos da OpenAI; provedores locais custam 0)
+    pricePerMillionTokens: process.env.EMBEDDING_PRICE_PER_MILLION
+      ? parseFloat(process.env.EMBEDDING_PRICE_PER_MILLION)
+      : undefined,
+    // Requisições à API: lotes por tokens, concorrência e limites da conta (0 = sem limite)
+    scheduler: {
+      maxConcurrency: parseInt(process.env.EMBEDDING_CONCURRENCY || '4'),
+      tokensPerMinute: parseInt(process.env.EMBEDDING_TPM || '1000000'),
+      requestsPerMinute: parseInt(process.env.EMBEDDING_RPM || '3000'),
+      maxBatchTokens: parseInt(process.env.EMBEDDING_MAX_BATCH_TOKENS || '20000'),
+      maxBatchInputs: parseInt(process.env.EMBEDDING_MAX_BATCH_INPUTS || '2048'),
+      maxRetries: parseInt(process.env.EMBEDDING_MAX_RETRIES || '6'),
+    },
+  },
+  // Cache de embeddings por conteúdo (modelo + dimensão + texto normalizado)
+  embeddingCache: {
+    backend: (process.env.EMBEDDING_CACHE || 'file') as EmbeddingCacheBackend,
+    dir: process.env.EMBEDDING_CACHE_DIR || '/home/jonata/Documentos/typescript-langchain/embedding-cache',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    redisPassword: process.env.REDIS_PASSWORD || '',
+    keyPrefix: 'embedding_cache:',
+    connectTimeoutMs: parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '5000'),
+    maxConnectRetries: parseInt(process.env.REDIS_CONNECT_RETRIES || '5'),
   },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
     password: process.env.REDIS_PASSWORD || '',
+    // Tempo máximo de cada tentativa de conexão e tentativas antes de desistir na inicialização
+    // (depois de conectado, o cliente reconecta com backoff sem limite de tentativas)
+    connectTimeoutMs: parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '5000'),
+    maxConnectRetries: parseInt(process.env.REDIS_CONNECT_RETRIES || '5'),
   },
   chunk: {
-    size: parseInt(process.env.CHUNK_SIZE || '600'),
-    overlap: parseInt(process.env.CHUNK_OVERLAP || '100'),
+    // Unidade de size/overlap: tokens do modelo de embedding (tokenizador local) ou caracteres
+    unit: chunkUnit,
+    size: parseInt(process.env.CHUNK_SIZE || (chunkUnit === 'tokens' ? '256' : '600')),
+    overlap: parseInt(process.env.CHUNK_OVERLAP || (chunkUnit === 'tokens' ? '32' : '100')),
+    // Tamanho máximo das passagens pai (seção/subseção devolvida no lugar dos chunks; 0 = desativado)
+    parentSize: parseInt(process.env.CHUNK_PARENT_SIZE || (chunkUnit === 'tokens' ? '1024' : '3000')),
+    // Limite de chunks por documento (0 = sem limite); se excedido, o processamento falha
+    maxChunks: parseInt(process.env.CHUNK_MAX_CHUNKS || '0'),
+    // jsonl = um bundle por documento; json/txt = um arquivo por chunk (formato legado)
+    format: (process.env.CHUNK_FORMAT || 'jsonl') as ChunkFormat,
+  },
+  // Limpeza do texto extraído (cabeçalhos/rodapés, números de página, ligaduras, hifenização, espaços)
+  cleanup: {
+    enabled: process.env.CLEANUP_ENABLED !== 'false',
+    removeHeadersFooters: process.env.CLEANUP_HEADERS_FOOTERS !== 'false',
+    removePageNumbers: process.env.CLEANUP_PAGE_NUMBERS !== 'false',
+    fixLigatures: process.env.CLEANUP_LIGATURES !== 'false',
+    joinHyphenation: process.env.CLEANUP_HYPHENATION !== 'false',
+    collapseWhitespace: process.env.CLEANUP_WHITESPACE !== 'false',
+    minRepeats: parseInt(process.env.CLEANUP_MIN_REPEATS || '4'),
+    edgeLines: parseInt(process.env.CLEANUP_EDGE_LINES || '3'),
   },
   paths: {
     tmpDir: '/home/jonata/Documentos/typescript-langchain/tmp',
+    // Documentos processados quando nenhum arquivo é passado na linha de comando (PDF, EPUB, HTML, Markdown, texto)
+    sourcesDir: process.env.SOURCES_DIR || '/home/jonata/Documentos/typescript-langchain/tmp',
     chunksDir: '/home/jonata/Documentos/typescript-langchain/chunks',
+    // Manifestos da ingestão incremental (um por fonte e por índice)
+    manifestsDir: process.env.MANIFESTS_DIR || '/home/jonata/Documentos/typescript-langchain/manifests',
+    // Checkpoints dos jobs de ingestão (retomados com --resume <jobId>)
+    jobsDir: process.env.JOBS_DIR || '/home/jonata/Documentos/typescript-langchain/jobs',
   },
   vectorStore: {
+    // redis (Redis Stack) ou memory (no próprio processo, para desenvolvimento sem containers)
+    backend: (process.env.VECTOR_STORE_BACKEND || 'redis') as VectorStoreBackend,
+    // Backend memory: snapshot JSON carregado na inicialização e regravado a cada lote gravado (vazio = sem persistência)
+    snapshotPath: process.env.VECTOR_STORE_SNAPSHOT ?? '/home/jonata/Documentos/typescript-langchain/vector-store.json',
     indexName: 'javascript_guide_vectors',
     keyPrefix: 'js_guide:',
+    // Formato dos vetores ao criar o índice: FLOAT32, FLOAT16 (Redis Stack 7.4+) ou INT8 (Redis 8+),
+    // e dimensões gravadas (0 = todas; menos só em modelos treinados para truncamento, ex: text-embedding-3-*).
+    // Num índice já criado, mude com npm run migrate-embeddings -- build --vector-type/--truncate
+    storage: {
+      type: (process.env.VECTOR_TYPE || 'FLOAT32').toUpperCase() as VectorDataType,
+      dimensions: parseInt(process.env.VECTOR_DIMENSIONS || '0'),
+    },
+    // Campo vetorial: HNSW (aproximado) ou FLAT (exato, lento em índices grandes) e a distância
+    // (COSINE, IP ou L2; os limiares de score da busca assumem COSINE). M e EF_CONSTRUCTION só
+    // valem na criação do índice; EF_RUNTIME (candidatos por consulta) vale na próxima busca
+    index: {
+      algorithm: (process.env.VECTOR_ALGORITHM || 'HNSW').toUpperCase() as VectorIndexAlgorithm,
+      distanceMetric: (process.env.VECTOR_DISTANCE_METRIC || 'COSINE').toUpperCase() as VectorDistanceMetric,
+      m: parseInt(process.env.HNSW_M || '16'),
+      efConstruction: parseInt(process.env.HNSW_EF_CONSTRUCTION || '200'),
+      efRuntime: parseInt(process.env.HNSW_EF_RUNTIME || '10'),
+    },
+  },
+  search: {
+    // Modo padrão do npm run search e da API (o corpo da requisição pode trocar): vector, lexical ou hybrid
+    mode: (process.env.SEARCH_MODE || 'vector') as SearchMode,
+    // Fusão do modo hybrid: rrf (só as posições) ou weighted (scores normalizados, pesados por HYBRID_VECTOR_WEIGHT)
+    hybrid: {
+      method: (process.env.HYBRID_FUSION || 'rrf') as FusionMethod,
+      rrfK: parseInt(process.env.HYBRID_RRF_K || '60'),
+      vectorWeight: parseFloat(process.env.HYBRID_VECTOR_WEIGHT || '0.5'),
+      candidates: parseInt(process.env.HYBRID_CANDIDATES || '50'),
+    },
   },
 };
 
 // Validação das configurações obrigatórias
 export function validateConfig() {
-  if (!config.openai.apiKey) {
-    throw new Error('OPENAI_API_KEY é obrigatório. Configure no arquivo .env');
+  if (config.embedding.provider === 'openai' && !config.embedding.apiKey) {
+    throw new Error('OPENAI_API_KEY é obrigatório com EMBEDDING_PROVIDER=openai. Configure no arquivo .env');
+  }
+
+  if (config.embedding.provider === 'openai-compatible' && !config.embedding.baseUrl) {
+    throw new Error('EMBEDDING_BASE_URL é obrigatório com EMBEDDING_PROVIDER=openai-compatible. Configure no arquivo .env');
   }
   
-  if (!config.redis.url) {
+  if (!['redis', 'memory'].includes(config.vectorStore.backend)) {
+    throw new Error(`VECTOR_STORE_BACKEND inválido: ${config.vectorStore.backend} (use redis ou memory)`);
+  }
+
+  if (!['FLOAT32', 'FLOAT16', 'INT8'].includes(config.vectorStore.storage.type)) {
+    throw new Error(`VECTOR_TYPE inválido: ${config.vectorStore.storage.type} (use FLOAT32, FLOAT16 ou INT8)`);
+  }
+
+  if (!['HNSW', 'FLAT'].includes(config.vectorStore.index.algorithm)) {
+    throw new Error(`VECTOR_ALGORITHM inválido: ${config.vectorStore.index.algorithm} (use HNSW ou FLAT)`);
+  }
+
+  if (!['COSINE', 'IP', 'L2'].includes(config.vectorStore.index.distanceMetric)) {
+    throw new Error(`VECTOR_DISTANCE_METRIC inválido: ${config.vectorStore.index.distanceMetric} (use COSINE, IP ou L2)`);
+  }
+
+  if (config.vectorStore.storage.type === 'INT8' && config.vectorStore.index.distanceMetric !== 'COSINE') {
+    throw new Error('VECTOR_TYPE=INT8 exige VECTOR_DISTANCE_METRIC=COSINE');
+  }
+
+  if (!['vector', 'lexical', 'hybrid'].includes(config.search.mode)) {
+    throw new Error(`SEARCH_MODE inválido: ${config.search.mode} (use vector, lexical ou hybrid)`);
+  }
+
+  if (!['rrf', 'weighted'].includes(config.search.hybrid.method)) {
+    throw new Error(`HYBRID_FUSION inválido: ${config.search.hybrid.method} (use rrf ou weighted)`);
+  }
+
+  if (!(config.search.hybrid.vectorWeight >= 0 && config.search.hybrid.vectorWeight <= 1)) {
+    throw new Error('HYBRID_VECTOR_WEIGHT deve estar entre 0 e 1');
+  }
+
+  if (config.vectorStore.backend === 'redis' && !config.redis.url) {
     throw new Error('REDIS_URL é obrigatório. Configure no arquivo .env');
   }
 }
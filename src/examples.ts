@@ -1,7 +1,9 @@
 import { config, validateConfig } from './config/config';
 import { SemanticSearchService } from './services/semanticSearchService';
 import { EmbeddingService } from './services/embeddingService';
-import { RedisVectorStoreService } from './services/redisVectorStore';
+import { createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache } from './services/embeddingCache';
+import { createVectorStore } from './services/vectorStore';
 
 /**
  * Exemplos de uso do sistema de busca semântica
@@ -11,18 +13,22 @@ export class Examples {
 
   constructor() {
     validateConfig();
+    const embeddingProvider = createEmbeddingProvider(config.embedding, createEmbeddingCache(config.embeddingCache));
     
     const embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
+      provider: embeddingProvider,
     });
     
-    const vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    const vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
     });
     
     this.semanticSearchService = new SemanticSearchService(
@@ -106,8 +112,10 @@ export class Examples {
       {
         maxResults: 5,
         includeScore: true,
+        // Só capítulos 13 e 15, fora das primeiras 100 páginas
         filterByMetadata: {
-          fileExtension: '.json',
+          chapter: [13, 15],
+          page: { not: { max: 100 } },
         },
       }
     );
@@ -2,9 +2,10 @@ import { config, validateConfig } from './config/config';
 import { PDFProcessor } from './utils/pdfProcessor';
 import { LangChainService } from './services/langchainService';
 import { EmbeddingService } from './services/embeddingService';
-import { RedisVectorStoreService } from './services/redisVectorStore';
+import { createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache, formatCacheStats } from './services/embeddingCache';
+import { createVectorStore } from './services/vectorStore';
 import { SemanticSearchService } from './services/semanticSearchService';
-import path from 'path';
 
 async function main() {
   try {
@@ -12,22 +13,31 @@ async function main() {
     
     // Validar configurações
     validateConfig();
+    const embeddingProvider = createEmbeddingProvider(config.embedding, createEmbeddingCache(config.embeddingCache));
     
     // ==========================================
     // ETAPA 1: PROCESSAR PDF
     // ==========================================
-    console.log('\n📄 ETAPA 1: Processando PDF...');
-    const pdfPath = path.join(config.paths.tmpDir, 'JavaScript The Definitive Guide (David Flanagan).pdf');
-    const pdfProcessor = new PDFProcessor(config.paths.chunksDir);
-    
-    const processedChunks = await pdfProcessor.processPDFToChunks(
-      pdfPath,
-      config.chunk.size,
-      config.chunk.overlap,
-      'json'
+    console.log('\n📄 ETAPA 1: Processando documentos...');
+    // Arquivos ou diretórios passados na linha de comando; por padrão, o diretório de fontes
+    const sourceInputs = process.argv.slice(2);
+    const pdfProcessor = new PDFProcessor(config.paths.chunksDir, config.embedding.model);
+    
+    const chunkingSummaries = await pdfProcessor.processSourcesToChunkFiles(
+      sourceInputs.length > 0 ? sourceInputs : [config.paths.sourcesDir],
+      {
+        chunkSize: config.chunk.size,
+        overlap: config.chunk.overlap,
+        unit: config.chunk.unit,
+        maxChunks: config.chunk.maxChunks,
+        parentSize: config.chunk.parentSize,
+        cleanup: config.cleanup,
+      },
+      config.chunk.format
     );
+    const totalChunks = chunkingSummaries.reduce((total, summary) => total + summary.totalChunks, 0);
     
-    console.log(`✅ PDF processado: ${processedChunks.length} chunks criados`);
+    console.log(`✅ Documentos processados: ${chunkingSummaries.length} (${totalChunks} chunks criados)`);
     
     // ==========================================
     // ETAPA 2: LOAD - CARREGAR DOCUMENTOS
@@ -36,6 +46,8 @@ async function main() {
     const langchainService = new LangChainService({
       chunkSize: config.chunk.size,
       chunkOverlap: config.chunk.overlap,
+      chunkUnit: config.chunk.unit,
+      tokenizerModel: config.embedding.model,
       chunksDirectory: config.paths.chunksDir,
     });
     
@@ -45,17 +57,15 @@ async function main() {
     // ==========================================
     // ETAPA 3: EMBED - CRIAR EMBEDDINGS
     // ==========================================
-    console.log('\n🧠 ETAPA 3: Criando embeddings com OpenAI...');
+    console.log(`\n🧠 ETAPA 3: Criando embeddings com ${embeddingProvider.describe()}...`);
     const embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
-      batchSize: 50, // Processar em lotes menores para evitar rate limits
+      provider: embeddingProvider,
     });
     
-    // Testar conexão com OpenAI
+    // Testar conexão com o provedor de embeddings
     const embeddingHealth = await embeddingService.testConnection();
     if (!embeddingHealth) {
-      throw new Error('Falha na conexão com OpenAI Embeddings');
+      throw new Error('Falha na conexão com o provedor de embeddings');
     }
     
     const embeddedDocuments = await embeddingService.embedDocuments(documents);
@@ -65,13 +75,18 @@ async function main() {
     // ETAPA 4: STORE - ARMAZENAR NO REDIS
     // ==========================================
     console.log('\n💾 ETAPA 4: Armazenando no Redis Vector Store...');
-    const vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    const vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
     });
+    await vectorStoreService.ready();
     
     // Testar conexão com Redis
     const redisHealth = await vectorStoreService.testConnection();
@@ -126,14 +141,19 @@ async function main() {
     
     console.log('\n🎉 Pipeline completo executado com sucesso!');
     console.log('\n📋 Resumo:');
-    console.log(`   - PDF processado: ${processedChunks.length} chunks`);
+    console.log(`   - Documentos processados: ${chunkingSummaries.length} (${totalChunks} chunks)`);
     console.log(`   - Documentos carregados: ${documents.length}`);
     console.log(`   - Embeddings criados: ${embeddedDocuments.length}`);
     console.log(`   - Documentos armazenados no Redis: ✅`);
     console.log(`   - Busca semântica funcionando: ✅`);
+    const cacheStats = embeddingService.getCacheStats();
+    if (cacheStats) {
+      console.log(`   - Cache de embeddings: ${formatCacheStats(cacheStats)}`);
+    }
     
     // Fechar conexões
     await vectorStoreService.closeConnection();
+    await embeddingService.closeConnection();
     
   } catch (error) {
     console.error('❌ Erro no pipeline:', error);
@@ -0,0 +1,226 @@
+import fs from 'fs';
+import { config, validateConfig } from './config/config';
+import { EmbeddingProviderType, createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache } from './services/embeddingCache';
+import { EvaluationQuery, IndexVersion, RedisVectorStoreService } from './services/redisVectorStore';
+import { formatVectorStorage, parseVectorDataType, parseVectorStorage } from './utils/vectorEncoding';
+
+// Consultas usadas na comparação quando nenhum arquivo é passado com --queries
+const DEFAULT_QUERIES: EvaluationQuery[] = [
+  { query: 'JavaScript programming language' },
+  { query: 'functions and variables' },
+  { query: 'DOM manipulation' },
+  { query: 'async programming' },
+  { query: 'objects and arrays' },
+];
+
+const USAGE = `Uso: npm run migrate-embeddings -- <comando>
+  list                                         Lista as versões do índice e as divergências de esquema
+  build [--model <modelo>] [--provider <tipo>] [--dimensions <n>] [--vector-type <tipo>] [--truncate <n>]
+                                               Cria a nova versão a partir do texto dos chunks gravados
+                                               (--vector-type FLOAT32, FLOAT16 ou INT8; --truncate grava só n dimensões;
+                                               sem opções, recria o índice ativo com o esquema configurado)
+  compare <versão> [--baseline <versão>] [--queries <arquivo.json>] [--k <n>]
+                                               Compara a recuperação com a versão ativa (ou --baseline)
+  recall [--formats <FLOAT16,INT8:512,...>] [--baseline <versão>] [--queries <arquivo.json>] [--k <n>]
+                                               Mede a perda de recall de cada formato contra os vetores FLOAT32
+                                               da versão ativa (ou --baseline)
+  switch <versão>                              Ativa a versão (troca atômica do alias)
+  drop <versão>                                Remove uma versão inativa`;
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+// Aceita "2" e "v2"
+function parseVersion(value: string | undefined): number {
+  const version = parseInt((value ?? '').replace(/^v/, ''));
+  if (isNaN(version)) {
+    throw new Error(`Informe o número da versão.\n${USAGE}`);
+  }
+  return version;
+}
+
+function loadQueries(args: string[]): EvaluationQuery[] {
+  const queriesPath = option(args, 'queries');
+  // Arquivo JSON: [{ "query": "...", "expectedIds": ["<id do chunk>", ...] }]
+  if (!queriesPath) {
+    return DEFAULT_QUERIES;
+  }
+  const queries = JSON.parse(fs.readFileSync(queriesPath, 'utf-8'));
+  if (!Array.isArray(queries) || queries.length === 0) {
+    throw new Error(`O arquivo de consultas deve conter uma lista não vazia: ${queriesPath}`);
+  }
+  return queries;
+}
+
+function formatVersion(version: IndexVersion, active: number): string {
+  const marker = version.version === active ? '✅ ativa' : version.status === 'building' ? '🏗️ em criação' : '💤 inativa';
+  return `v${version.version}: ${version.indexName} (prefixo ${version.keyPrefix}) — ` +
+    `${version.model}${version.dimensions ? ` ${version.dimensions}d` : ''} [${version.provider}], ` +
+    `vetores ${formatVectorStorage(version.storage)} ${marker}`;
+}
+
+async function migrateEmbeddings(args: string[]) {
+  const command = args[0];
+  if (!command || !['list', 'build', 'compare', 'recall', 'switch', 'drop'].includes(command)) {
+    console.log(USAGE);
+    process.exit(command ? 1 : 0);
+  }
+
+  validateConfig();
+  if (config.vectorStore.backend !== 'redis') {
+    throw new Error('As versões do índice só existem no Redis: use VECTOR_STORE_BACKEND=redis');
+  }
+  const embeddingCache = createEmbeddingCache(config.embeddingCache);
+  const embeddingProvider = createEmbeddingProvider(config.embedding, embeddingCache);
+  const vectorStoreService = new RedisVectorStoreService({
+    redis: config.redis,
+    indexName: config.vectorStore.indexName,
+    keyPrefix: config.vectorStore.keyPrefix,
+    vectorStorage: config.vectorStore.storage,
+    vectorIndex: config.vectorStore.index,
+    embeddingProvider,
+    providerForVersion: version => createEmbeddingProvider(
+      { ...config.embedding, provider: version.provider, model: version.model, dimensions: version.dimensions },
+      embeddingCache
+    ),
+  });
+
+  try {
+    console.log('🔀 MIGRAÇÃO DE MODELO DE EMBEDDING');
+    console.log('=' .repeat(80));
+    await vectorStoreService.ready();
+
+    switch (command) {
+      case 'list': {
+        const { versions, active } = await vectorStoreService.listIndexVersions();
+        console.log(`📚 Versões do índice ${config.vectorStore.indexName} (alias ${vectorStoreService.getAliasName()}):`);
+        for (const version of versions) {
+          console.log(`   - ${formatVersion(version, active)}`);
+          const drift = await vectorStoreService.checkIndexSchema(version);
+          drift.forEach(item => console.log(`     ⚠️ fora do esquema: ${item}`));
+        }
+        break;
+      }
+
+      case 'build': {
+        const model = option(args, 'model');
+        const vectorType = option(args, 'vector-type');
+        const truncate = option(args, 'truncate');
+
+        // Sem --model, a nova versão usa o modelo da versão ativa (só o formato dos vetores muda)
+        const active = await vectorStoreService.getActiveVersion();
+        const provider = createEmbeddingProvider(
+          model
+            ? {
+              ...config.embedding,
+              provider: (option(args, 'provider') ?? config.embedding.provider) as EmbeddingProviderType,
+              model,
+              dimensions: parseInt(option(args, 'dimensions') ?? '0'),
+            }
+            : { ...config.embedding, provider: active.provider, model: active.model, dimensions: active.dimensions },
+          embeddingCache
+        );
+        const storage = vectorType || truncate
+          ? {
+            type: vectorType ? parseVectorDataType(vectorType) : active.storage.type,
+            dimensions: truncate ? parseInt(truncate) : active.storage.dimensions,
+          }
+          : undefined;
+
+        console.log('⚠️ Não rode a ingestão durante a cópia; se rodar, repita o build para copiar os chunks novos');
+        if (!model) {
+          console.log('ℹ️ Mesmo modelo: os embeddings vêm do cache, sem chamadas ao provedor (se o cache estiver ativo)');
+        }
+        const version = await vectorStoreService.buildIndexVersion(provider, storage);
+        console.log(`\n➡️ Próximo passo: npm run migrate-embeddings -- compare ${version.version}`);
+        break;
+      }
+
+      case 'compare': {
+        const candidate = parseVersion(args[1]);
+        const baseline = option(args, 'baseline')
+          ? parseVersion(option(args, 'baseline'))
+          : (await vectorStoreService.getActiveVersion()).version;
+        const queries = loadQueries(args);
+        const k = parseInt(option(args, 'k') ?? '5');
+
+        console.log(`🔍 Comparando v${baseline} (baseline) com v${candidate} em ${queries.length} consultas (top ${k})`);
+        const comparison = await vectorStoreService.compareIndexVersions(baseline, candidate, queries, k);
+
+        for (const item of comparison.queries) {
+          console.log(`\n   ❓ "${item.query}" — sobreposição ${(item.overlap * 100).toFixed(0)}%`);
+          console.log(`      v${baseline}: ${item.baselineIds.join(', ') || '(nenhum)'}`);
+          console.log(`      v${candidate}: ${item.candidateIds.join(', ') || '(nenhum)'}`);
+        }
+
+        console.log(`\n📊 Sobreposição média dos top ${k}: ${(comparison.meanOverlap * 100).toFixed(1)}%`);
+        if (comparison.recall && comparison.mrr) {
+          console.log(`   - Recall@${k}: v${baseline} ${comparison.recall.baseline.toFixed(3)} | v${candidate} ${comparison.recall.candidate.toFixed(3)}`);
+          console.log(`   - MRR: v${baseline} ${comparison.mrr.baseline.toFixed(3)} | v${candidate} ${comparison.mrr.candidate.toFixed(3)}`);
+        } else {
+          console.log('   - Sem expectedIds nas consultas: recall e MRR não calculados');
+        }
+        console.log(`\n➡️ Para ativar: npm run migrate-embeddings -- switch ${candidate}`);
+        break;
+      }
+
+      case 'recall': {
+        const formats = option(args, 'formats');
+        const queries = loadQueries(args);
+        const k = parseInt(option(args, 'k') ?? '10');
+
+        console.log(`📏 Medindo o recall@${k} dos formatos de vetor em ${queries.length} consultas (busca exata)`);
+        const report = await vectorStoreService.measureStorageRecall(
+          queries,
+          formats ? formats.split(',').map(parseVectorStorage) : undefined,
+          k,
+          option(args, 'baseline') ? parseVersion(option(args, 'baseline')) : undefined
+        );
+
+        const fullBytes = report.dimensions * 4;
+        console.log(`\n📊 v${report.version}: ${report.documents} vetores, ${report.dimensions} dimensões ` +
+          `(FLOAT32: ${(fullBytes * report.documents / 1024 / 1024).toFixed(1)} MB)`);
+        for (const result of report.results) {
+          console.log(
+            `   - ${formatVectorStorage(result.storage).padEnd(14)} recall@${k} ${result.recall.toFixed(3)} | ` +
+            `${result.bytesPerVector} bytes/vetor (${(100 - result.bytesPerVector / fullBytes * 100).toFixed(0)}% menos), ` +
+            `${(result.vectorBytes / 1024 / 1024).toFixed(1)} MB | pior consulta: "${result.worstQuery.query}" ` +
+            `${result.worstQuery.recall.toFixed(2)}`
+          );
+        }
+        console.log('\nℹ️ Os vetores são só parte da memória: o grafo HNSW, o conteúdo e os metadados não mudam');
+        console.log('➡️ Para usar um formato: npm run migrate-embeddings -- build --vector-type <tipo> [--truncate <n>]');
+        break;
+      }
+
+      case 'switch': {
+        const previous = await vectorStoreService.getActiveVersion();
+        const version = await vectorStoreService.activateIndexVersion(parseVersion(args[1]));
+        console.log(`✅ Versão ativa: v${version.version} (antes: v${previous.version}, mantida até "drop ${previous.version}")`);
+        if (version.model !== config.embedding.model) {
+          console.log(`⚠️ Atualize EMBEDDING_MODEL=${version.model} no .env: a ingestão só grava embeddings do modelo ativo`);
+        }
+        break;
+      }
+
+      case 'drop': {
+        await vectorStoreService.dropIndexVersion(parseVersion(args[1]));
+        break;
+      }
+    }
+
+    await vectorStoreService.closeConnection();
+    await embeddingCache?.close();
+  } catch (error) {
+    console.error('❌ Erro na migração de modelo:', error);
+    await vectorStoreService.closeConnection();
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  migrateEmbeddings(process.argv.slice(2));
+}
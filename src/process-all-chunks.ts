@@ -2,44 +2,44 @@ import { config, validateConfig } from './config/config';
 import { PDFProcessor } from './utils/pdfProcessor';
 import { LangChainService } from './services/langchainService';
 import { EmbeddingService } from './services/embeddingService';
-import { RedisVectorStoreService } from './services/redisVectorStore';
+import { createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache, formatCacheStats } from './services/embeddingCache';
+import { createVectorStore } from './services/vectorStore';
 import { SemanticSearchService } from './services/semanticSearchService';
 import { PromptService } from './services/promptService';
-import { Document } from 'langchain/document';
-import path from 'path';
+import { IngestionService } from './services/ingestionService';
+import { countChunks, groupChunkSources, listChunkSources } from './services/chunkLoaders';
+import { IngestionManifestStore } from './utils/ingestionManifest';
+import { IngestionJob, IngestionJobStore, parseResumeArg } from './utils/ingestionJob';
+import { IngestionPlanner, formatIngestionPlan } from './services/ingestionPlanner';
 import fs from 'fs';
-import { createReadStream } from 'fs';
-import { createInterface } from 'readline';
 
-interface ProcessedChunk {
-  id: string;
-  content: string;
-  metadata: {
-    source: string;
-    page: number;
-    chunkIndex: number;
-    totalChunks: number;
-    fileName: string;
-  };
-}
+const JOB_COMMAND = 'process-all';
+
+async function processAllChunks(args: string[]) {
+  let job: IngestionJob | undefined;
 
-async function processAllChunks() {
   try {
+    const resumeJobId = parseResumeArg(args);
     console.log('🚀 INICIANDO PROCESSAMENTO COMPLETO DE TODOS OS CHUNKS');
     console.log('=' .repeat(80));
     
     // Validar configurações
     validateConfig();
+    const embeddingProvider = createEmbeddingProvider(config.embedding, createEmbeddingCache(config.embeddingCache));
     
     // ==========================================
     // ETAPA 1: VERIFICAR CHUNKS EXISTENTES
     // ==========================================
     console.log('\n📁 ETAPA 1: Verificando chunks existentes...');
     const chunksDir = config.paths.chunksDir;
-    const chunkFiles = fs.readdirSync(chunksDir).filter(file => file.endsWith('.json'));
-    console.log(`   - Total de arquivos de chunks encontrados: ${chunkFiles.length}`);
+    const chunkSources = listChunkSources(chunksDir);
+    const totalChunks = await countChunks(chunkSources);
+    console.log(`   - Bundles JSONL encontrados: ${chunkSources.bundles.length}`);
+    console.log(`   - Arquivos de chunk individuais (formato legado): ${chunkSources.chunkFiles.length}`);
+    console.log(`   - Total de chunks: ${totalChunks}`);
     
-    if (chunkFiles.length === 0) {
+    if (totalChunks === 0) {
       throw new Error('Nenhum chunk encontrado. Execute primeiro o processamento do PDF.');
     }
     
@@ -49,18 +49,21 @@ async function processAllChunks() {
     console.log('\n🔧 ETAPA 2: Inicializando serviços...');
     
     const embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
-      batchSize: 50, // Lotes menores para evitar timeouts
+      provider: embeddingProvider,
     });
     
-    const vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    const vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
     });
+    await vectorStoreService.ready();
     
     const promptService = new PromptService({
       model: 'gpt-3.5-turbo',
@@ -82,140 +85,60 @@ async function processAllChunks() {
     }
     console.log('   ✅ Redis conectado');
     
-    console.log('   - Testando conexão com OpenAI...');
+    console.log(`   - Testando conexão com o provedor de embeddings (${embeddingProvider.describe()})...`);
     const embeddingHealth = await embeddingService.testConnection();
     if (!embeddingHealth) {
-      throw new Error('Falha na conexão com OpenAI');
+      throw new Error('Falha na conexão com o provedor de embeddings');
     }
-    console.log('   ✅ OpenAI conectado');
+    console.log('   ✅ Provedor de embeddings conectado');
     
     // ==========================================
-    // ETAPA 3: VERIFICAR STATUS ATUAL DO REDIS
+    // ETAPA 3: COMPARAR COM A ÚLTIMA INGESTÃO
     // ==========================================
-    console.log('\n🔍 ETAPA 3: Verificando status atual do Redis...');
+    console.log('\n🔍 ETAPA 3: Comparando chunks com os manifestos de ingestão...');
     const indexInfo = await vectorStoreService.getIndexInfo();
     const currentDocs = indexInfo?.numDocs || 0;
+    const manifests = new IngestionManifestStore(config.paths.manifestsDir, config.vectorStore.indexName);
+    const chunkGroups = groupChunkSources(chunkSources);
     console.log(`   - Documentos atualmente no Redis: ${currentDocs}`);
-    console.log(`   - Chunks para processar: ${chunkFiles.length}`);
+    console.log(`   - Fontes com chunks: ${chunkGroups.length}`);
+    console.log(`   - Fontes já ingeridas (manifestos): ${manifests.listSources().length}`);
     
-    if (currentDocs >= chunkFiles.length) {
-      console.log('   ℹ️ Todos os chunks já estão processados no Redis!');
-      console.log('   - Testando busca semântica...');
-      
-      const testQuery = "JavaScript programming language";
-      const results = await semanticSearchService.search(testQuery, { maxResults: 3 });
-      console.log(`   ✅ Busca funcionando: ${results.length} resultados encontrados`);
-      
-      await vectorStoreService.closeConnection();
-      return;
+    if (currentDocs > 0 && manifests.listSources().length === 0) {
+      console.log('   ⚠️ O índice já tem documentos, mas não há manifestos: documentos gravados antes da');
+      console.log('      ingestão incremental não serão removidos. Apague o índice para começar do zero.');
     }
     
+    const jobs = new IngestionJobStore(config.paths.jobsDir, config.vectorStore.indexName);
+    job = resumeJobId ? jobs.resume(resumeJobId, JOB_COMMAND) : jobs.create(JOB_COMMAND);
+    console.log(`   - Job de ingestão: ${job.id}${resumeJobId ? ' (retomado)' : ''}`);
+    console.log(`   - Para retomar após uma falha: npm run process-all -- --resume ${job.id}`);
+    
     // ==========================================
-    // ETAPA 4: PROCESSAR CHUNKS COM STREAMS
+    // ETAPA 4: INGESTÃO INCREMENTAL
     // ==========================================
-    console.log('\n📦 ETAPA 4: Processando chunks com streams...');
+    console.log('\n📦 ETAPA 4: Ingerindo apenas chunks novos ou alterados...');
     
-    const batchSize = 100; // Processar 100 chunks por vez
-    const totalBatches = Math.ceil(chunkFiles.length / batchSize);
-    let processedCount = 0;
-    let savedCount = 0;
-    
-    console.log(`   - Total de lotes: ${totalBatches}`);
-    console.log(`   - Chunks por lote: ${batchSize}`);
-    console.log(`   - Processamento sob demanda com logs detalhados`);
+    const ingestionService = new IngestionService(embeddingService, vectorStoreService, manifests, {
+      batchSize: 500,
+      storeBatchSize: 50,
+    });
+    const summaries = await ingestionService.ingest(chunkGroups, job);
+    const failedChunks = job.formatFailureReport();
+    job.finish(failedChunks.length > 0 ? 'completed_with_failures' : 'completed');
     
-    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-      const batchNumber = batchIndex + 1;
-      const startIndex = batchIndex * batchSize;
-      const endIndex = Math.min(startIndex + batchSize, chunkFiles.length);
-      const batchFiles = chunkFiles.slice(startIndex, endIndex);
-      
-      console.log(`\n📦 PROCESSANDO LOTE ${batchNumber}/${totalBatches}`);
-      console.log(`   - Chunks: ${startIndex + 1} a ${endIndex} (${batchFiles.length} chunks)`);
-      console.log(`   - Arquivos: ${batchFiles.slice(0, 3).join(', ')}${batchFiles.length > 3 ? '...' : ''}`);
-      
-      try {
-        // Carregar chunks do lote
-        const batchChunks: ProcessedChunk[] = [];
-        for (const file of batchFiles) {
-          const filePath = path.join(chunksDir, file);
-          const chunkData = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-          batchChunks.push(chunkData);
-        }
-        
-        console.log(`   - Chunks carregados: ${batchChunks.length}`);
-        
-        // Converter para documentos LangChain
-        const documents: Document[] = batchChunks.map(chunk => {
-          return new Document({
-            pageContent: chunk.content,
-            metadata: {
-              source: chunk.metadata.source,
-              page: chunk.metadata.page,
-              chunkIndex: chunk.metadata.chunkIndex,
-              totalChunks: chunk.metadata.totalChunks,
-              fileName: chunk.metadata.fileName,
-              id: chunk.id
-            }
-          });
-        });
-        
-        console.log(`   - Documentos LangChain criados: ${documents.length}`);
-        
-        // Criar embeddings e salvar em lotes menores
-        const embeddingBatchSize = 25; // Lotes ainda menores para embeddings
-        const embeddingBatches = Math.ceil(documents.length / embeddingBatchSize);
-        
-        console.log(`   - Criando embeddings em ${embeddingBatches} sub-lotes de ${embeddingBatchSize}...`);
-        
-        for (let embIndex = 0; embIndex < embeddingBatches; embIndex++) {
-          const embStart = embIndex * embeddingBatchSize;
-          const embEnd = Math.min(embStart + embeddingBatchSize, documents.length);
-          const embBatch = documents.slice(embStart, embEnd);
-          
-          console.log(`     📦 Sub-lote de embedding ${embIndex + 1}/${embeddingBatches} (${embBatch.length} docs)...`);
-          
-          try {
-            // Criar embeddings
-            const embeddedDocs = await embeddingService.embedDocuments(embBatch);
-            console.log(`     ✅ Embeddings criados: ${embeddedDocs.length}`);
-            
-            // Salvar no Redis
-            console.log(`     💾 Salvando no Redis...`);
-            await vectorStoreService.storeDocuments(embeddedDocs);
-            console.log(`     ✅ Salvos no Redis: ${embeddedDocs.length} documentos`);
-            
-            savedCount += embeddedDocs.length;
-            
-          } catch (error) {
-            console.error(`     ❌ Erro no sub-lote de embedding ${embIndex + 1}:`, error);
-            throw error;
-          }
-        }
-        
-        processedCount += documents.length;
-        
-        console.log(`   ✅ LOTE ${batchNumber} CONCLUÍDO:`);
-        console.log(`     - Chunks processados: ${documents.length}`);
-        console.log(`     - Total processado: ${processedCount}/${chunkFiles.length} (${Math.round((processedCount / chunkFiles.length) * 100)}%)`);
-        console.log(`     - Total salvos no Redis: ${savedCount}`);
-        
-        // Verificar status do Redis a cada lote
-        const currentIndexInfo = await vectorStoreService.getIndexInfo();
-        const currentRedisDocs = currentIndexInfo?.numDocs || 0;
-        console.log(`     - Documentos no Redis: ${currentRedisDocs}`);
-        
-        // Pequena pausa entre lotes
-        if (batchNumber < totalBatches) {
-          console.log(`     ⏳ Aguardando 2 segundos antes do próximo lote...`);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-        
-      } catch (error) {
-        console.error(`   ❌ Erro no lote ${batchNumber}:`, error);
-        throw error;
-      }
-    }
+    const totals = summaries.reduce(
+      (total, summary) => ({
+        added: total.added + summary.added,
+        updated: total.updated + summary.updated,
+        removed: total.removed + summary.removed,
+        unchanged: total.unchanged + summary.unchanged,
+        failed: total.failed + summary.failed,
+        parentsStored: total.parentsStored + summary.parentsStored,
+        parentsRemoved: total.parentsRemoved + summary.parentsRemoved,
+      }),
+      { added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0, parentsStored: 0, parentsRemoved: 0 }
+    );
     
     // ==========================================
     // ETAPA 5: VERIFICAÇÃO FINAL
@@ -225,14 +148,22 @@ async function processAllChunks() {
     const finalIndexInfo = await vectorStoreService.getIndexInfo();
     const finalDocs = finalIndexInfo?.numDocs || 0;
     
-    console.log(`   - Chunks processados: ${processedCount}`);
-    console.log(`   - Documentos salvos no Redis: ${savedCount}`);
+    for (const summary of summaries) {
+      console.log(`   - ${summary.source}: ${ingestionService.formatSummary(summary)}`);
+    }
+    console.log(`   - Total: ${ingestionService.formatSummary(totals)}`);
     console.log(`   - Documentos no índice Redis: ${finalDocs}`);
     
-    if (finalDocs < chunkFiles.length) {
-      console.log(`   ⚠️ ATENÇÃO: Esperado ${chunkFiles.length} documentos, mas apenas ${finalDocs} estão no Redis`);
+    if (failedChunks.length > 0) {
+      console.log(`\n❌ CHUNKS QUE FALHARAM (${failedChunks.length}), registrados no job ${job.id}:`);
+      failedChunks.forEach(line => console.log(`   - ${line}`));
+      console.log(`   Para tentar de novo: npm run process-all -- --resume ${job.id}`);
+    }
+    
+    if (finalDocs < totalChunks) {
+      console.log(`   ⚠️ ATENÇÃO: Esperado ${totalChunks} documentos, mas apenas ${finalDocs} estão no Redis`);
     } else {
-      console.log(`   ✅ SUCESSO: Todos os ${chunkFiles.length} chunks foram processados e salvos!`);
+      console.log(`   ✅ SUCESSO: Todos os ${totalChunks} chunks estão no Redis!`);
     }
     
     // ==========================================
@@ -280,23 +211,96 @@ async function processAllChunks() {
     console.log(`     - Fontes: ${answer.sources.length}`);
     console.log(`     - Resposta: ${answer.answer.substring(0, 200)}...`);
     
-    console.log('\n🎉 PROCESSAMENTO COMPLETO FINALIZADO COM SUCESSO!');
+    console.log(failedChunks.length > 0
+      ? `\n⚠️ PROCESSAMENTO FINALIZADO COM ${failedChunks.length} CHUNKS COM FALHA (job ${job.id})`
+      : '\n🎉 PROCESSAMENTO COMPLETO FINALIZADO COM SUCESSO!');
     console.log('=' .repeat(80));
     console.log(`📊 RESUMO FINAL:`);
-    console.log(`   - Chunks processados: ${processedCount}`);
-    console.log(`   - Documentos salvos no Redis: ${savedCount}`);
+    console.log(`   - Chunks adicionados: ${totals.added}`);
+    console.log(`   - Chunks atualizados: ${totals.updated}`);
+    console.log(`   - Chunks removidos: ${totals.removed}`);
+    console.log(`   - Chunks inalterados: ${totals.unchanged}`);
     console.log(`   - Documentos no índice: ${finalDocs}`);
     console.log(`   - Busca semântica: ✅`);
     console.log(`   - PromptTemplate: ✅`);
+    const cacheStats = embeddingService.getCacheStats();
+    if (cacheStats) {
+      console.log(`   - Cache de embeddings: ${formatCacheStats(cacheStats)}`);
+    }
     
     await vectorStoreService.closeConnection();
-    
+    await embeddingService.closeConnection();
+
+    // Chunks faltando no índice: o CI não pode tratar a execução como bem-sucedida
+    if (failedChunks.length > 0) {
+      process.exit(1);
+    }
   } catch (error) {
     console.error('❌ Erro no processamento completo:', error);
+    if (job) {
+      job.finish('failed', error);
+      console.error(`💾 Progresso salvo no job ${job.id}. Para retomar: npm run process-all -- --resume ${job.id}`);
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Simulação da ingestão (--dry-run): compara os chunks com os manifestos e
+ * estima tokens, custo e memória do Redis, sem chave de API nem conexões.
+ * Com --report <arquivo>, grava o plano completo em JSON.
+ */
+async function planAllChunks(args: string[]) {
+  try {
+    const reportPath = parseReportArg(args);
+    console.log('🧮 SIMULAÇÃO DA INGESTÃO (DRY-RUN): nenhum embedding será criado');
+    console.log('=' .repeat(80));
+
+    const chunkSources = listChunkSources(config.paths.chunksDir);
+    const manifests = new IngestionManifestStore(config.paths.manifestsDir, config.vectorStore.indexName);
+    // Só o cache em arquivo é consultado: o cache no Redis exigiria conexão
+    const cache = config.embeddingCache.backend === 'file' ? createEmbeddingCache(config.embeddingCache) : undefined;
+
+    const planner = new IngestionPlanner(
+      { embedding: config.embedding, keyPrefix: config.vectorStore.keyPrefix, vectorStorage: config.vectorStore.storage },
+      manifests,
+      cache
+    );
+    const plan = await planner.plan(groupChunkSources(chunkSources));
+    await cache?.close();
+
+    console.log(`   - Índice: ${config.vectorStore.indexName}`);
+    console.log(`   - Modelo: ${plan.model} (${plan.provider})\n`);
+    formatIngestionPlan(plan).forEach(line => console.log(line));
+
+    if (reportPath) {
+      fs.writeFileSync(reportPath, JSON.stringify(plan, null, 2));
+      console.log(`\n💾 Plano completo gravado em ${reportPath}`);
+    }
+  } catch (error) {
+    console.error('❌ Erro na simulação da ingestão:', error);
     process.exit(1);
   }
 }
 
+// Aceita "--report <arquivo>" e "--report=<arquivo>"
+function parseReportArg(args: string[]): string | undefined {
+  const index = args.findIndex(arg => arg === '--report' || arg.startsWith('--report='));
+  if (index === -1) {
+    return undefined;
+  }
+  const reportPath = args[index] === '--report' ? args[index + 1] : args[index].slice('--report='.length);
+  if (!reportPath || reportPath.startsWith('--')) {
+    throw new Error('Informe o arquivo do relatório: --report <arquivo>');
+  }
+  return reportPath;
+}
+
 if (require.main === module) {
-  processAllChunks();
+  const args = process.argv.slice(2);
+  if (args.includes('--dry-run')) {
+    planAllChunks(args);
+  } else {
+    processAllChunks(args);
+  }
 }
@@ -2,22 +2,33 @@ import { config, validateConfig } from './config/config';
 import { PDFProcessor } from './utils/pdfProcessor';
 import { LangChainService } from './services/langchainService';
 import { EmbeddingService } from './services/embeddingService';
-import { RedisVectorStoreService } from './services/redisVectorStore';
+import { createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache, formatCacheStats } from './services/embeddingCache';
+import { createVectorStore } from './services/vectorStore';
 import { SemanticSearchService } from './services/semanticSearchService';
-import path from 'path';
+import { IngestionJob, IngestionJobStore, parseResumeArg } from './utils/ingestionJob';
+
+const JOB_COMMAND = 'process-optimized';
 
 interface ProcessingOptions {
+  // Arquivos ou diretórios a processar (padrão: config.paths.sourcesDir)
+  sources?: string[];
   maxDocuments?: number;
   batchSize?: number;
   skipExisting?: boolean;
+  // Job de ingestão a retomar (documentos já gravados nele são pulados)
+  resumeJobId?: string;
 }
 
 async function processOptimized(options: ProcessingOptions = {}) {
   const {
     maxDocuments = 1000, // Processar apenas 1000 documentos por padrão
-    batchSize = 25, // Lotes menores para evitar timeouts
-    skipExisting = true
+    batchSize = 500, // Documentos por lote salvo no Redis
+    skipExisting = true,
+    sources = [],
+    resumeJobId,
   } = options;
+  let job: IngestionJob | undefined;
 
   try {
     console.log('🚀 INICIANDO PROCESSAMENTO OTIMIZADO');
@@ -28,22 +39,29 @@ async function processOptimized(options: ProcessingOptions = {}) {
     
     // Validar configurações
     validateConfig();
+    const embeddingProvider = createEmbeddingProvider(config.embedding, createEmbeddingCache(config.embeddingCache));
     
     // ==========================================
     // ETAPA 1: PROCESSAR PDF
     // ==========================================
-    console.log('\n📄 ETAPA 1: Processando PDF...');
-    const pdfPath = path.join(config.paths.tmpDir, 'JavaScript The Definitive Guide (David Flanagan).pdf');
-    const pdfProcessor = new PDFProcessor(config.paths.chunksDir);
-    
-    const processedChunks = await pdfProcessor.processPDFToChunks(
-      pdfPath,
-      config.chunk.size,
-      config.chunk.overlap,
-      'json'
+    console.log('\n📄 ETAPA 1: Processando documentos...');
+    const pdfProcessor = new PDFProcessor(config.paths.chunksDir, config.embedding.model);
+    
+    const chunkingSummaries = await pdfProcessor.processSourcesToChunkFiles(
+      sources.length > 0 ? sources : [config.paths.sourcesDir],
+      {
+        chunkSize: config.chunk.size,
+        overlap: config.chunk.overlap,
+        unit: config.chunk.unit,
+        maxChunks: config.chunk.maxChunks,
+        parentSize: config.chunk.parentSize,
+        cleanup: config.cleanup,
+      },
+      config.chunk.format
     );
+    const totalChunks = chunkingSummaries.reduce((total, summary) => total + summary.totalChunks, 0);
     
-    console.log(`✅ PDF processado: ${processedChunks.length} chunks criados`);
+    console.log(`✅ Documentos processados: ${chunkingSummaries.length} (${totalChunks} chunks criados)`);
     
     // ==========================================
     // ETAPA 2: CARREGAR DOCUMENTOS (LIMITADO)
@@ -52,6 +70,8 @@ async function processOptimized(options: ProcessingOptions = {}) {
     const langchainService = new LangChainService({
       chunkSize: config.chunk.size,
       chunkOverlap: config.chunk.overlap,
+      chunkUnit: config.chunk.unit,
+      tokenizerModel: config.embedding.model,
       chunksDirectory: config.paths.chunksDir,
     });
     
@@ -68,12 +88,17 @@ async function processOptimized(options: ProcessingOptions = {}) {
     
     if (skipExisting) {
       console.log('\n🔍 ETAPA 3: Verificando documentos existentes no Redis...');
-      const vectorStoreService = new RedisVectorStoreService({
-        redisUrl: config.redis.url,
+      // Sem create(): se o Redis estiver fora, a falha cai no catch abaixo e o processamento continua
+      const vectorStoreService = createVectorStore({
+        backend: config.vectorStore.backend,
+        snapshotPath: config.vectorStore.snapshotPath,
+        redis: config.redis,
         indexName: config.vectorStore.indexName,
         keyPrefix: config.vectorStore.keyPrefix,
-        embeddingModel: config.openai.embeddingModel,
-        apiKey: config.openai.apiKey,
+        vectorStorage: config.vectorStore.storage,
+        vectorIndex: config.vectorStore.index,
+        hybridSearch: config.search.hybrid,
+        embeddingProvider,
       });
       
       try {
@@ -88,12 +113,12 @@ async function processOptimized(options: ProcessingOptions = {}) {
             console.log(`   - Usando documentos existentes para teste de busca`);
             
             // Testar busca com dados existentes
+            const existingEmbeddingService = new EmbeddingService({
+              provider: embeddingProvider,
+            });
             const semanticSearchService = new SemanticSearchService(
               vectorStoreService,
-              new EmbeddingService({
-                apiKey: config.openai.apiKey,
-                model: config.openai.embeddingModel,
-              })
+              existingEmbeddingService
             );
             
             console.log('\n🔍 TESTANDO BUSCA COM DADOS EXISTENTES...');
@@ -110,6 +135,7 @@ async function processOptimized(options: ProcessingOptions = {}) {
             });
             
             await vectorStoreService.closeConnection();
+            await existingEmbeddingService.closeConnection();
             console.log('\n🎉 PROCESSAMENTO CONCLUÍDO - USANDO DADOS EXISTENTES!');
             return;
           }
@@ -127,28 +153,32 @@ async function processOptimized(options: ProcessingOptions = {}) {
     // ==========================================
     console.log('\n🧠 ETAPA 4: Criando embeddings e salvando em lotes...');
     const embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
+      provider: embeddingProvider,
       batchSize: batchSize,
     });
     
-    // Testar conexão com OpenAI
+    // Testar conexão com o provedor de embeddings
     const embeddingHealth = await embeddingService.testConnection();
     if (!embeddingHealth) {
-      throw new Error('Falha na conexão com OpenAI Embeddings');
+      throw new Error('Falha na conexão com o provedor de embeddings');
     }
     
     // ==========================================
     // ETAPA 5: INICIALIZAR REDIS
     // ==========================================
     console.log('\n💾 ETAPA 5: Inicializando Redis Vector Store...');
-    const vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    const vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
     });
+    await vectorStoreService.ready();
     
     // Testar conexão com Redis
     const redisHealth = await vectorStoreService.testConnection();
@@ -160,10 +190,21 @@ async function processOptimized(options: ProcessingOptions = {}) {
     // ETAPA 6: PROCESSAR E SALVAR EM LOTES
     // ==========================================
     console.log('\n🔄 ETAPA 6: Processando embeddings e salvando em lotes...');
+    const jobs = new IngestionJobStore(config.paths.jobsDir, config.vectorStore.indexName);
+    job = resumeJobId ? jobs.resume(resumeJobId, JOB_COMMAND) : jobs.create(JOB_COMMAND);
+    console.log(`   - Job de ingestão: ${job.id} (para retomar: npm run process-optimized -- --resume=${job.id})`);
+    
     const embeddedDocuments = await embeddingService.embedAndSaveInBatches(
       documentsToEmbed, 
-      vectorStoreService
+      vectorStoreService,
+      job
     );
+    const failedChunks = job.formatFailureReport();
+    job.finish(failedChunks.length > 0 ? 'completed_with_failures' : 'completed');
+    if (failedChunks.length > 0) {
+      console.log(`\n❌ DOCUMENTOS QUE FALHARAM (${failedChunks.length}), registrados no job ${job.id}:`);
+      failedChunks.forEach(line => console.log(`   - ${line}`));
+    }
     console.log(`✅ Processamento completo: ${embeddedDocuments.length} documentos processados e salvos`);
     
     // ==========================================
@@ -206,21 +247,35 @@ async function processOptimized(options: ProcessingOptions = {}) {
       });
     }
     
-    console.log('\n🎉 PROCESSAMENTO OTIMIZADO CONCLUÍDO COM SUCESSO!');
+    console.log(failedChunks.length > 0
+      ? `\n⚠️ PROCESSAMENTO OTIMIZADO CONCLUÍDO COM ${failedChunks.length} DOCUMENTOS COM FALHA (job ${job.id})`
+      : '\n🎉 PROCESSAMENTO OTIMIZADO CONCLUÍDO COM SUCESSO!');
     console.log('\n📋 Resumo:');
-    console.log(`   - PDF processado: ${processedChunks.length} chunks`);
+    console.log(`   - Documentos processados: ${chunkingSummaries.length} (${totalChunks} chunks)`);
     console.log(`   - Documentos carregados: ${allDocuments.length} total`);
     console.log(`   - Documentos processados: ${documentsToEmbed.length}`);
     console.log(`   - Embeddings criados: ${embeddedDocuments.length}`);
     console.log(`   - Documentos salvos em lotes no Redis: ✅`);
     console.log(`   - Busca semântica funcionando: ✅`);
     console.log(`   - PromptTemplate integrado: ✅`);
+    const cacheStats = embeddingService.getCacheStats();
+    if (cacheStats) {
+      console.log(`   - Cache de embeddings: ${formatCacheStats(cacheStats)}`);
+    }
     
     // Fechar conexões
     await vectorStoreService.closeConnection();
-    
+    await embeddingService.closeConnection();
+
+    if (failedChunks.length > 0) {
+      process.exit(1);
+    }
   } catch (error) {
     console.error('❌ Erro no processamento otimizado:', error);
+    if (job) {
+      job.finish('failed', error);
+      console.error(`💾 Progresso salvo no job ${job.id}. Para retomar: npm run process-optimized -- --resume=${job.id}`);
+    }
     process.exit(1);
   }
 }
@@ -231,15 +286,25 @@ if (require.main === module) {
   const args = process.argv.slice(2);
   const maxDocs = args.find(arg => arg.startsWith('--max='))?.split('=')[1];
   const batchSize = args.find(arg => arg.startsWith('--batch='))?.split('=')[1];
+  let resumeJobId: string | undefined;
+  try {
+    resumeJobId = parseResumeArg(args);
+  } catch (error) {
+    console.error('❌ Argumento inválido:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
   
   const options: ProcessingOptions = {
     maxDocuments: maxDocs ? parseInt(maxDocs) : 1000,
-    batchSize: batchSize ? parseInt(batchSize) : 25,
-    skipExisting: true
+    batchSize: batchSize ? parseInt(batchSize) : 500,
+    // Ao retomar um job, o índice já tem parte dos documentos
+    skipExisting: !resumeJobId,
+    resumeJobId,
+    sources: args.filter((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--resume')
   };
   
-  console.log('📝 Uso: npm run process-optimized [--max=1000] [--batch=25]');
-  console.log('📝 Exemplo: npm run process-optimized --max=500 --batch=20');
+  console.log('📝 Uso: npm run process-optimized [arquivos ou diretórios...] [--max=1000] [--batch=500] [--resume=<jobId>]');
+  console.log('📝 Exemplo: npm run process-optimized --max=500 --batch=100');
   
   processOptimized(options);
 }
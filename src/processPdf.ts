@@ -1,48 +1,61 @@
 import { PDFProcessor } from './utils/pdfProcessor';
 import { config, validateConfig } from './config/config';
-import path from 'path';
 
 async function processPDF() {
   try {
-    console.log('🚀 Iniciando processamento do PDF...');
+    console.log('🚀 Iniciando processamento dos documentos...');
     
     // Validar configurações
     validateConfig();
     
-    // Caminho do PDF
-    const pdfPath = path.join(config.paths.tmpDir, 'JavaScript The Definitive Guide (David Flanagan).pdf');
+    // Arquivos ou diretórios passados na linha de comando; por padrão, o diretório de fontes
+    const args = process.argv.slice(2);
+    const sourceInputs = args.length > 0 ? args : [config.paths.sourcesDir];
     
-    // Criar processador de PDF
-    const pdfProcessor = new PDFProcessor(config.paths.chunksDir);
+    // Criar processador de documentos (PDF, EPUB, HTML, Markdown, texto)
+    const pdfProcessor = new PDFProcessor(config.paths.chunksDir, config.embedding.model);
     
-    console.log('📄 Processando PDF para chunks...');
+    console.log(`📄 Processando documentos para chunks: ${sourceInputs.join(', ')}`);
     
-    // Processar PDF em chunks
-    const processedChunks = await pdfProcessor.processPDFToChunks(
-      pdfPath,
-      config.chunk.size,
-      config.chunk.overlap,
-      'json' // Salvar como JSON para melhor estruturação
+    // Processar cada documento em chunks (em streaming, sem limite de tamanho do documento)
+    const chunkingSummaries = await pdfProcessor.processSourcesToChunkFiles(
+      sourceInputs,
+      {
+        chunkSize: config.chunk.size,
+        overlap: config.chunk.overlap,
+        unit: config.chunk.unit,
+        maxChunks: config.chunk.maxChunks,
+        parentSize: config.chunk.parentSize,
+        cleanup: config.cleanup,
+      },
+      config.chunk.format // JSONL: um bundle por documento, com cabeçalho e chunks em ordem
     );
     
-    console.log(`✅ PDF processado com sucesso!`);
-    console.log(`📊 Estatísticas:`);
-    console.log(`   - Total de chunks: ${processedChunks.length}`);
-    console.log(`   - Tamanho do chunk: ${config.chunk.size} caracteres`);
-    console.log(`   - Overlap: ${config.chunk.overlap} caracteres`);
+    const unitLabel = config.chunk.unit === 'tokens' ? 'tokens' : 'caracteres';
+    console.log(`✅ ${chunkingSummaries.length} documento(s) processado(s) com sucesso!`);
+    console.log(`📊 Configuração:`);
+    console.log(`   - Tamanho do chunk: ${config.chunk.size} ${unitLabel}`);
+    console.log(`   - Overlap: ${config.chunk.overlap} ${unitLabel}`);
     console.log(`   - Diretório dos chunks: ${config.paths.chunksDir}`);
     
-    // Mostrar alguns exemplos de chunks
-    console.log('\n📝 Exemplos de chunks criados:');
-    processedChunks.slice(0, 3).forEach((chunk, index) => {
-      console.log(`\nChunk ${index + 1}:`);
-      console.log(`   ID: ${chunk.id}`);
-      console.log(`   Tamanho: ${chunk.content.length} caracteres`);
-      console.log(`   Preview: ${chunk.content.substring(0, 100)}...`);
-    });
+    for (const chunkingSummary of chunkingSummaries) {
+      console.log(`\n📊 ${chunkingSummary.bundlePath ?? chunkingSummary.chunksDirectory}:`);
+      console.log(`   - Total de chunks: ${chunkingSummary.totalChunks}`);
+      console.log(`   - Chunks com código: ${chunkingSummary.codeChunks}`);
+      console.log(`   - Cabeçalhos/rodapés removidos: ${chunkingSummary.cleanupReport?.headerFooterLinesRemoved ?? 0}`);
+      
+      // Mostrar alguns exemplos de chunks
+      console.log('\n📝 Exemplos de chunks criados:');
+      chunkingSummary.preview.forEach((chunk, index) => {
+        console.log(`\nChunk ${index + 1}:`);
+        console.log(`   ID: ${chunk.id}`);
+        console.log(`   Tamanho: ${chunk.content.length} caracteres (${chunk.metadata.tokenCount} tokens)`);
+        console.log(`   Preview: ${chunk.content.substring(0, 100)}...`);
+      });
+    }
     
   } catch (error) {
-    console.error('❌ Erro no processamento do PDF:', error);
+    console.error('❌ Erro no processamento dos documentos:', error);
     process.exit(1);
   }
 }
@@ -1,6 +1,8 @@
 import { config, validateConfig } from './config/config';
 import { EmbeddingService } from './services/embeddingService';
-import { RedisVectorStoreService } from './services/redisVectorStore';
+import { createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache } from './services/embeddingCache';
+import { createVectorStore } from './services/vectorStore';
 import { SemanticSearchService } from './services/semanticSearchService';
 import readline from 'readline';
 
@@ -10,20 +12,25 @@ async function interactiveSearch() {
     
     // Validar configurações
     validateConfig();
+    const embeddingProvider = createEmbeddingProvider(config.embedding, createEmbeddingCache(config.embeddingCache));
     
     // Inicializar serviços
     const embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
+      provider: embeddingProvider,
     });
     
-    const vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    const vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
     });
+    await vectorStoreService.ready();
     
     const semanticSearchService = new SemanticSearchService(
       vectorStoreService,
@@ -75,6 +82,7 @@ async function interactiveSearch() {
           maxResults: 5,
           scoreThreshold: 0.8,
           includeScore: true,
+          mode: config.search.mode,
         });
         
         if (results.length === 0) {
@@ -102,6 +110,7 @@ async function interactiveSearch() {
     
     // Fechar conexões
     await vectorStoreService.closeConnection();
+    await embeddingService.closeConnection();
     rl.close();
     
     console.log('\n👋 Obrigado por usar o sistema de busca semântica!');
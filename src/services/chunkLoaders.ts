@@ -0,0 +1,142 @@
+import { BaseDocumentLoader } from 'langchain/document_loaders/base';
+import { Document } from 'langchain/document';
+import fs from 'fs';
+import path from 'path';
+import { ProcessedChunk, ProcessedParent } from '../utils/pdfProcessor';
+import {
+  CHUNK_BUNDLE_EXTENSION,
+  isChunkBundle,
+  readChunkBundle,
+  readChunkBundleHeader,
+  readParentPassages,
+  sortChunkFiles,
+} from '../utils/chunkBundle';
+
+export function chunkToDocument(chunk: ProcessedChunk): Document {
+  return new Document({
+    pageContent: chunk.content,
+    metadata: {
+      ...chunk.metadata,
+      fileName: path.basename(chunk.metadata.source),
+      id: chunk.id,
+    },
+  });
+}
+
+// Loader do LangChain para bundles JSONL: um Document por chunk, na ordem do bundle
+export class ChunkBundleLoader extends BaseDocumentLoader {
+  constructor(private bundlePath: string) {
+    super();
+  }
+
+  async load(): Promise<Document[]> {
+    const documents: Document[] = [];
+    for await (const chunk of readChunkBundle(this.bundlePath)) {
+      documents.push(chunkToDocument(chunk));
+    }
+    return documents;
+  }
+}
+
+export function isProcessedChunk(value: any): value is ProcessedChunk {
+  return typeof value?.id === 'string' &&
+    typeof value?.content === 'string' &&
+    typeof value?.metadata?.source === 'string' &&
+    typeof value?.metadata?.chunkIndex === 'number';
+}
+
+// Documentos que já são chunks processados (não devem ser divididos de novo)
+export function isChunkDocument(document: Document): boolean {
+  return typeof document.metadata.id === 'string' && typeof document.metadata.chunkIndex === 'number';
+}
+
+// Loader do LangChain para o formato legado (um ProcessedChunk por arquivo JSON): o conteúdo
+// vira o pageContent e os metadados do chunk são mantidos, sem dividir o texto de novo
+export class ProcessedChunkLoader extends BaseDocumentLoader {
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async load(): Promise<Document[]> {
+    const value = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    if (!isProcessedChunk(value)) {
+      console.warn(`⚠️ Ignorando arquivo que não é um chunk processado: ${this.filePath}`);
+      return [];
+    }
+    return [chunkToDocument(value)];
+  }
+}
+
+export interface ChunkSources {
+  bundles: string[];
+  // Arquivos do formato legado (um JSON por chunk), já em ordem numérica
+  chunkFiles: string[];
+}
+
+export function listChunkSources(chunksDir: string): ChunkSources {
+  const files = fs.readdirSync(chunksDir);
+
+  return {
+    bundles: files.filter(isChunkBundle).sort().map(file => path.join(chunksDir, file)),
+    chunkFiles: sortChunkFiles(files.filter(file => /_chunk_\d+\.json$/.test(file)))
+      .map(file => path.join(chunksDir, file)),
+  };
+}
+
+export async function countChunks(sources: ChunkSources): Promise<number> {
+  let total = sources.chunkFiles.length;
+  for (const bundlePath of sources.bundles) {
+    total += (await readChunkBundleHeader(bundlePath)).totalChunks;
+  }
+  return total;
+}
+
+// Lê todos os chunks do diretório em streaming: bundles primeiro, depois os arquivos legados
+export async function* streamChunks(sources: ChunkSources): AsyncGenerator<ProcessedChunk> {
+  for (const bundlePath of sources.bundles) {
+    yield* readChunkBundle(bundlePath);
+  }
+
+  for (const filePath of sources.chunkFiles) {
+    yield JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ProcessedChunk;
+  }
+}
+
+// Chunks de uma única fonte (um bundle ou os arquivos legados de um mesmo documento)
+export interface ChunkGroup {
+  source: string;
+  read: () => AsyncGenerator<ProcessedChunk>;
+  // Passagens pai referenciadas pelos chunks (só existem em bundles)
+  readParents?: () => AsyncGenerator<ProcessedParent>;
+}
+
+export function groupChunkSources(sources: ChunkSources): ChunkGroup[] {
+  const groups: ChunkGroup[] = sources.bundles.map(bundlePath => ({
+    source: path.basename(bundlePath, CHUNK_BUNDLE_EXTENSION),
+    read: () => readChunkBundle(bundlePath),
+    readParents: () => readParentPassages(bundlePath),
+  }));
+
+  const legacyFiles = new Map<string, string[]>();
+  for (const filePath of sources.chunkFiles) {
+    const source = path.basename(filePath).replace(/_chunk_\d+\.json$/, '');
+    legacyFiles.set(source, [...(legacyFiles.get(source) ?? []), filePath]);
+  }
+
+  for (const [source, files] of legacyFiles) {
+    // O manifesto é por nome de fonte: um bundle e chunks legados com o mesmo nome se apagariam mutuamente
+    if (groups.some(group => group.source === source)) {
+      throw new Error(`${source} tem chunks em bundle e no formato legado: apague os arquivos ${source}_chunk_*.json`);
+    }
+    groups.push({
+      source,
+      read: async function* () {
+        for (const filePath of files) {
+          yield JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ProcessedChunk;
+        }
+      },
+    });
+  }
+
+  return groups;
+}
@@ -0,0 +1,365 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createInterface } from 'readline';
+import { createClient } from 'redis';
+import type { EmbeddingProvider, EmbeddingProviderType } from './embeddingProvider';
+
+// none: sem cache; file: arquivo JSONL local; redis: chaves no Redis (compartilhado entre máquinas)
+export type EmbeddingCacheBackend = 'none' | 'file' | 'redis';
+
+export interface EmbeddingCacheConfig {
+  backend: EmbeddingCacheBackend;
+  // Diretório do backend file
+  dir: string;
+  // Conexão e prefixo das chaves do backend redis
+  redisUrl: string;
+  redisPassword?: string;
+  keyPrefix: string;
+  // Tempo de cada tentativa de conexão e tentativas antes de desistir (padrão: 5s e 5, como em config.redis)
+  connectTimeoutMs?: number;
+  maxConnectRetries?: number;
+}
+
+// Teto do backoff entre tentativas de conexão do cache
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+export interface EmbeddingCacheStats {
+  backend: EmbeddingCacheBackend;
+  hits: number;
+  misses: number;
+  // Embeddings novos gravados no cache
+  stored: number;
+  // Percentual de textos atendidos pelo cache
+  hitRate: number;
+}
+
+/**
+ * Armazena embeddings por chave de conteúdo (ver embeddingCacheKey). Os
+ * vetores são guardados como float32, a mesma precisão do índice no Redis.
+ */
+export interface EmbeddingCache {
+  readonly backend: EmbeddingCacheBackend;
+  getMany(keys: string[]): Promise<(number[] | undefined)[]>;
+  setMany(entries: Map<string, number[]>): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Diferenças só de espaços ou de forma Unicode não geram um embedding novo
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// Chave do cache: o mesmo texto tem embeddings diferentes em cada modelo e dimensão
+export function embeddingCacheKey(model: string, dimensions: number, text: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${model}\0${dimensions}\0${normalizeEmbeddingText(text)}`)
+    .digest('hex');
+}
+
+function encodeVector(vector: number[]): Buffer {
+  const floats = Float32Array.from(vector);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+function decodeVector(buffer: Buffer): number[] {
+  // Copia para um ArrayBuffer alinhado (o Buffer pode ser uma fatia de um pool compartilhado)
+  const bytes = new Uint8Array(buffer);
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4));
+}
+
+/**
+ * Cache em um arquivo JSONL (uma linha por embedding, vetor em base64).
+ * O arquivo é lido por inteiro no primeiro acesso e só recebe novas linhas;
+ * para limpar o cache, apague o diretório.
+ */
+export class FileEmbeddingCache implements EmbeddingCache {
+  readonly backend: EmbeddingCacheBackend = 'file';
+  private filePath: string;
+  private entries?: Promise<Map<string, Buffer>>;
+
+  constructor(dir: string) {
+    this.filePath = path.join(dir, 'embeddings.jsonl');
+  }
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    const entries = await this.load();
+    return keys.map(key => {
+      const buffer = entries.get(key);
+      return buffer ? decodeVector(buffer) : undefined;
+    });
+  }
+
+  async setMany(entries: Map<string, number[]>): Promise<void> {
+    const loaded = await this.load();
+    const lines: string[] = [];
+
+    for (const [key, vector] of entries) {
+      if (loaded.has(key)) {
+        continue;
+      }
+      const buffer = encodeVector(vector);
+      loaded.set(key, buffer);
+      lines.push(JSON.stringify({ key, vector: buffer.toString('base64') }));
+    }
+
+    if (lines.length > 0) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, lines.join('\n') + '\n');
+    }
+  }
+
+  async close(): Promise<void> {
+    this.entries = undefined;
+  }
+
+  private load(): Promise<Map<string, Buffer>> {
+    if (!this.entries) {
+      this.entries = this.readFile();
+    }
+    return this.entries;
+  }
+
+  private async readFile(): Promise<Map<string, Buffer>> {
+    const entries = new Map<string, Buffer>();
+    if (!fs.existsSync(this.filePath)) {
+      return entries;
+    }
+
+    const input = fs.createReadStream(this.filePath, { encoding: 'utf-8' });
+    let invalid = 0;
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const { key, vector } = JSON.parse(line);
+        entries.set(key, Buffer.from(vector, 'base64'));
+      } catch {
+        // Linha truncada (ex: processo interrompido durante a escrita): o embedding é recalculado
+        invalid++;
+      }
+    }
+
+    if (invalid > 0) {
+      console.warn(`⚠️ Cache de embeddings: ${invalid} linhas inválidas ignoradas em ${this.filePath}`);
+    }
+    console.log(`💾 Cache de embeddings carregado: ${entries.size} embeddings (${this.filePath})`);
+    return entries;
+  }
+}
+
+/**
+ * Cache no Redis. Diferente do vector store, o cache nunca espera o Redis
+ * voltar: a conexão desiste depois de maxConnectRetries tentativas (também
+ * numa queda depois de conectado) e os comandos falham na hora enquanto ela
+ * está caída, para o CachedEmbeddingProvider calcular os embeddings sem cache.
+ * A próxima operação tenta conectar de novo.
+ */
+export class RedisEmbeddingCache implements EmbeddingCache {
+  readonly backend: EmbeddingCacheBackend = 'redis';
+  private client?: ReturnType<typeof createClient>;
+  private connecting?: Promise<ReturnType<typeof createClient>>;
+
+  constructor(
+    private config: Pick<EmbeddingCacheConfig, 'redisUrl' | 'redisPassword' | 'keyPrefix' | 'connectTimeoutMs' | 'maxConnectRetries'>
+  ) {}
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const client = await this.connect();
+    const values = await client.mGet(
+      client.commandOptions({ returnBuffers: true }),
+      keys.map(key => this.config.keyPrefix + key)
+    );
+    return values.map(value => (value ? decodeVector(value) : undefined));
+  }
+
+  async setMany(entries: Map<string, number[]>): Promise<void> {
+    if (entries.size === 0) {
+      return;
+    }
+
+    const client = await this.connect();
+    const multi = client.multi();
+    for (const [key, vector] of entries) {
+      multi.set(this.config.keyPrefix + key, encodeVector(vector));
+    }
+    await multi.exec();
+  }
+
+  async close(): Promise<void> {
+    if (this.client?.isOpen) {
+      await (this.client.isReady ? this.client.quit() : this.client.disconnect());
+    }
+  }
+
+  private async connect(): Promise<ReturnType<typeof createClient>> {
+    if (this.client?.isOpen) {
+      return this.client;
+    }
+
+    // Uma tentativa que falhou é descartada: se o Redis voltar, a próxima operação conecta
+    this.connecting = this.connecting ?? this.openConnection().finally(() => (this.connecting = undefined));
+    this.client = await this.connecting;
+    return this.client;
+  }
+
+  private async openConnection(): Promise<ReturnType<typeof createClient>> {
+    const { redisUrl, redisPassword, connectTimeoutMs = 5000, maxConnectRetries = 5 } = this.config;
+
+    const client = createClient({
+      url: redisUrl,
+      password: redisPassword || undefined,
+      // Sem fila offline: durante uma reconexão os comandos falham em vez de esperar
+      disableOfflineQueue: true,
+      socket: {
+        connectTimeout: connectTimeoutMs,
+        reconnectStrategy: (retries: number, cause: Error) => {
+          if (retries >= maxConnectRetries) {
+            return new Error(`Redis do cache indisponível em ${redisUrl} após ${retries + 1} tentativas: ${cause.message}`);
+          }
+          return Math.min(200 * Math.pow(2, retries), MAX_RECONNECT_DELAY_MS);
+        },
+      },
+    });
+    // Sem listener, um erro de conexão derrubaria o processo; as falhas chegam às operações
+    client.on('error', () => {});
+
+    await client.connect();
+    console.log('✅ Cache de embeddings conectado ao Redis');
+    return client;
+  }
+}
+
+/**
+ * Provedor de embeddings com cache: consulta o cache antes de chamar o
+ * provedor e só calcula os textos ausentes. Falhas do cache não interrompem
+ * a geração de embeddings (os textos são tratados como ausentes).
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly type: EmbeddingProviderType;
+  readonly model: string;
+  readonly dimensions: number;
+  private hits = 0;
+  private misses = 0;
+  private stored = 0;
+
+  constructor(private provider: EmbeddingProvider, private cache: EmbeddingCache) {
+    this.type = provider.type;
+    this.model = provider.model;
+    this.dimensions = provider.dimensions;
+  }
+
+  // O provedor sem o cache (ver withoutCache)
+  get uncached(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const keys = texts.map(text => embeddingCacheKey(this.model, this.dimensions, text));
+    const embeddings = await this.lookup(keys);
+
+    // Textos repetidos no mesmo lote são calculados uma única vez
+    const missing = new Map<string, string>();
+    keys.forEach((key, index) => {
+      if (!embeddings[index] && !missing.has(key)) {
+        missing.set(key, texts[index]);
+      }
+    });
+
+    const hits = embeddings.filter(Boolean).length;
+    this.hits += hits;
+    this.misses += texts.length - hits;
+    if (texts.length > 1) {
+      console.log(`   💾 Cache de embeddings: ${hits} hits, ${texts.length - hits} misses`);
+    }
+
+    if (missing.size > 0) {
+      const computed = await this.provider.embedDocuments([...missing.values()]);
+      const entries = new Map([...missing.keys()].map((key, index) => [key, computed[index]]));
+      keys.forEach((key, index) => (embeddings[index] = embeddings[index] ?? entries.get(key)));
+      await this.store(entries);
+    }
+
+    return embeddings as number[][];
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const key = embeddingCacheKey(this.model, this.dimensions, text);
+    const [cached] = await this.lookup([key]);
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    this.misses++;
+    const embedding = await this.provider.embedQuery(text);
+    await this.store(new Map([[key, embedding]]));
+    return embedding;
+  }
+
+  describe(): string {
+    return `${this.provider.describe()} com cache ${this.cache.backend}`;
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      backend: this.cache.backend,
+      hits: this.hits,
+      misses: this.misses,
+      stored: this.stored,
+      hitRate: total > 0 ? Math.round((this.hits / total) * 1000) / 10 : 0,
+    };
+  }
+
+  close(): Promise<void> {
+    return this.cache.close();
+  }
+
+  private async lookup(keys: string[]): Promise<(number[] | undefined)[]> {
+    try {
+      return await this.cache.getMany(keys);
+    } catch (error) {
+      console.warn('⚠️ Cache de embeddings indisponível, calculando todos os embeddings:', error);
+      return keys.map(() => undefined);
+    }
+  }
+
+  private async store(entries: Map<string, number[]>): Promise<void> {
+    try {
+      await this.cache.setMany(entries);
+      this.stored += entries.size;
+    } catch (error) {
+      console.warn('⚠️ Não foi possível gravar no cache de embeddings:', error);
+    }
+  }
+}
+
+export function formatCacheStats(stats: EmbeddingCacheStats): string {
+  return `${stats.hits} hits, ${stats.misses} misses (${stats.hitRate}% do cache ${stats.backend}), ${stats.stored} gravados`;
+}
+
+export function createEmbeddingCache(config: EmbeddingCacheConfig): EmbeddingCache | undefined {
+  switch (config.backend) {
+    case 'none':
+      return undefined;
+    case 'file':
+      return new FileEmbeddingCache(config.dir);
+    case 'redis':
+      return new RedisEmbeddingCache(config);
+    default:
+      throw new Error(`EMBEDDING_CACHE inválido: ${config.backend} (use file, redis ou none)`);
+  }
+}
+
+// Para embeddings descartáveis (ex: as sentenças comparadas no chunking semântico), que
+// encheriam o cache com vetores que nunca serão reaproveitados e distorceriam os hits/misses
+export function withoutCache(provider: EmbeddingProvider): EmbeddingProvider {
+  return provider instanceof CachedEmbeddingProvider ? provider.uncached : provider;
+}
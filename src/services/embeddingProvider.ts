@@ -0,0 +1,193 @@
+import { OpenAIEmbeddings } from '@langchain/openai';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import crypto from 'crypto';
+import { CachedEmbeddingProvider, EmbeddingCache } from './embeddingCache';
+import { EmbeddingScheduler, EmbeddingSchedulerOptions } from './embeddingScheduler';
+import { Tokenizer } from '../utils/tokenizer';
+
+// openai: API da OpenAI; openai-compatible: servidor local com a mesma API (Ollama, LM Studio, vLLM...);
+// hash: embeddings determinísticos calculados localmente, para desenvolvimento offline e CI
+export type EmbeddingProviderType = 'openai' | 'openai-compatible' | 'hash';
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderType;
+  model: string;
+  apiKey?: string;
+  // URL base da API compatível com a OpenAI (ex: http://localhost:11434/v1 no Ollama)
+  baseUrl?: string;
+  // Dimensão dos vetores (0 = padrão do modelo; no provedor hash, padrão 384)
+  dimensions?: number;
+  // Lotes, concorrência e orçamento por minuto das requisições à API (openai e openai-compatible)
+  scheduler?: EmbeddingSchedulerOptions;
+}
+
+/**
+ * Provedor de embeddings compartilhado entre a ingestão (EmbeddingService) e
+ * as consultas (RedisVectorStoreService): documentos e perguntas sempre são
+ * vetorizados pelo mesmo modelo.
+ */
+export interface EmbeddingProvider extends EmbeddingsInterface {
+  readonly type: EmbeddingProviderType;
+  readonly model: string;
+  // Dimensão configurada (0 = padrão do modelo)
+  readonly dimensions: number;
+  describe(): string;
+}
+
+// Cliente da API de embeddings da OpenAI com as requisições agendadas pelo EmbeddingScheduler
+class ScheduledOpenAIEmbeddings {
+  private embeddings: OpenAIEmbeddings;
+  private scheduler: EmbeddingScheduler;
+
+  constructor(config: Omit<EmbeddingProviderConfig, 'provider'>, baseUrl?: string) {
+    const tokenizer = new Tokenizer(config.model);
+    this.scheduler = new EmbeddingScheduler(text => tokenizer.count(text), config.scheduler);
+    this.embeddings = new OpenAIEmbeddings(
+      {
+        openAIApiKey: config.apiKey,
+        modelName: config.model,
+        dimensions: config.dimensions || undefined,
+        // Cada lote do agendador é uma única requisição, sem novas tentativas internas do LangChain
+        batchSize: config.scheduler?.maxBatchInputs ?? 2048,
+        maxRetries: 0,
+      },
+      baseUrl ? { baseURL: baseUrl } : undefined
+    );
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.scheduler.run(texts, batch => this.embeddings.embedDocuments(batch));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.scheduler.run([text], async ([query]) => [await this.embeddings.embedQuery(query)]);
+    return embedding;
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly type: EmbeddingProviderType = 'openai';
+  readonly model: string;
+  readonly dimensions: number;
+  private embeddings: ScheduledOpenAIEmbeddings;
+
+  constructor(config: Omit<EmbeddingProviderConfig, 'provider'>) {
+    if (!config.apiKey) {
+      throw new Error('OPENAI_API_KEY é obrigatório para EMBEDDING_PROVIDER=openai. Configure no arquivo .env');
+    }
+
+    this.model = config.model;
+    this.dimensions = config.dimensions || 0;
+    this.embeddings = new ScheduledOpenAIEmbeddings(config);
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embedDocuments(texts);
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text);
+  }
+
+  describe(): string {
+    return `OpenAI (${this.model})`;
+  }
+}
+
+// Servidores locais que implementam POST /embeddings da API da OpenAI
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly type: EmbeddingProviderType = 'openai-compatible';
+  readonly model: string;
+  readonly dimensions: number;
+  private baseUrl: string;
+  private embeddings: ScheduledOpenAIEmbeddings;
+
+  constructor(config: Omit<EmbeddingProviderConfig, 'provider'>) {
+    if (!config.baseUrl) {
+      throw new Error('EMBEDDING_BASE_URL é obrigatório para EMBEDDING_PROVIDER=openai-compatible');
+    }
+
+    this.model = config.model;
+    this.dimensions = config.dimensions || 0;
+    this.baseUrl = config.baseUrl;
+    // Servidores locais normalmente ignoram a chave, mas o cliente da OpenAI exige uma
+    this.embeddings = new ScheduledOpenAIEmbeddings({ ...config, apiKey: config.apiKey || 'local' }, config.baseUrl);
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embedDocuments(texts);
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text);
+  }
+
+  describe(): string {
+    return `${this.model} em ${this.baseUrl}`;
+  }
+}
+
+const DEFAULT_HASH_DIMENSIONS = 384;
+
+/**
+ * Embeddings determinísticos por feature hashing: cada palavra soma ±1 em uma
+ * dimensão escolhida pelo hash. Textos com as mesmas palavras ficam próximos,
+ * sem rede nem chave de API (não substitui um modelo real em qualidade).
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly type: EmbeddingProviderType = 'hash';
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_HASH_DIMENSIONS) {
+    this.dimensions = dimensions > 0 ? dimensions : DEFAULT_HASH_DIMENSIONS;
+    this.model = `hash-${this.dimensions}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  describe(): string {
+    return `hash determinístico (${this.dimensions} dimensões)`;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of text.toLowerCase().match(/[\p{L}\p{N}_$]+/gu) ?? []) {
+      const hash = crypto.createHash('md5').update(token).digest();
+      const index = hash.readUInt32LE(0) % this.dimensions;
+      vector[index] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    // Texto sem palavras: vetor unitário fixo (um vetor nulo não tem similaridade de cosseno definida)
+    return norm === 0 ? vector.map((_, index) => (index === 0 ? 1 : 0)) : vector.map(value => value / norm);
+  }
+}
+
+// Com cache (ver createEmbeddingCache), os textos já vetorizados não são enviados de novo ao provedor
+export function createEmbeddingProvider(config: EmbeddingProviderConfig, cache?: EmbeddingCache): EmbeddingProvider {
+  const provider = createUncachedProvider(config);
+  return cache ? new CachedEmbeddingProvider(provider, cache) : provider;
+}
+
+function createUncachedProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider(config);
+    case 'hash':
+      return new HashEmbeddingProvider(config.dimensions);
+    default:
+      throw new Error(
+        `EMBEDDING_PROVIDER inválido: ${config.provider} (use openai, openai-compatible ou hash)`
+      );
+  }
+}
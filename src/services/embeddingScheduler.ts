@@ -0,0 +1,279 @@
+export interface EmbeddingSchedulerOptions {
+  // Requisições simultâneas (reduzida pela metade a cada 429 e recuperada aos poucos)
+  maxConcurrency?: number;
+  // Orçamento por minuto da conta no provedor (0 = sem limite)
+  tokensPerMinute?: number;
+  requestsPerMinute?: number;
+  // Limites de uma requisição: soma de tokens e número de textos
+  maxBatchTokens?: number;
+  maxBatchInputs?: number;
+  // Novas tentativas por lote antes de desistir
+  maxRetries?: number;
+}
+
+export interface EmbeddingSchedulerStats {
+  requests: number;
+  tokens: number;
+  retries: number;
+  rateLimited: number;
+  // Tempo total de espera imposto pelo orçamento ou por Retry-After, em ms
+  waitedMs: number;
+}
+
+interface PendingBatch {
+  indexes: number[];
+  tokens: number;
+  attempt: number;
+}
+
+const WINDOW_MS = 60_000;
+const MAX_BACKOFF_MS = 60_000;
+
+// Erros de requisição inválida ou de autenticação não melhoram com novas tentativas
+const STATUS_NO_RETRY = [400, 401, 402, 403, 404, 405, 406, 407, 409, 422];
+
+/**
+ * Orçamento de requisições e tokens em uma janela deslizante de um minuto,
+ * com pausa global quando o provedor responde 429 com Retry-After.
+ */
+class RateLimiter {
+  private window: { time: number; tokens: number }[] = [];
+  private pausedUntil = 0;
+  waitedMs = 0;
+
+  constructor(private tokensPerMinute: number, private requestsPerMinute: number) {}
+
+  async acquire(tokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+
+      let wait = this.pausedUntil - now;
+      if (wait <= 0) {
+        const usedTokens = this.window.reduce((total, entry) => total + entry.tokens, 0);
+        const overRequests = this.requestsPerMinute > 0 && this.window.length >= this.requestsPerMinute;
+        // Um lote maior que o orçamento inteiro passa sozinho, com a janela vazia
+        const overTokens = this.tokensPerMinute > 0 && this.window.length > 0 &&
+          usedTokens + tokens > this.tokensPerMinute;
+
+        if (!overRequests && !overTokens) {
+          this.window.push({ time: now, tokens });
+          return;
+        }
+        wait = this.window[0].time + WINDOW_MS - now;
+      }
+
+      this.waitedMs += wait;
+      await sleep(wait);
+    }
+  }
+
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+/**
+ * Agenda as requisições de embedding: agrupa os textos em lotes pelo número
+ * de tokens, executa vários lotes em paralelo dentro do orçamento por minuto
+ * e repete os lotes que falharem, respeitando o Retry-After do provedor.
+ */
+export class EmbeddingScheduler {
+  private maxConcurrency: number;
+  private concurrency: number;
+  private maxBatchTokens: number;
+  private maxBatchInputs: number;
+  private maxRetries: number;
+  private limiter: RateLimiter;
+  private successesSinceBackoff = 0;
+  private stats: EmbeddingSchedulerStats = { requests: 0, tokens: 0, retries: 0, rateLimited: 0, waitedMs: 0 };
+
+  constructor(private countTokens: (text: string) => number, options: EmbeddingSchedulerOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    this.concurrency = this.maxConcurrency;
+    this.maxBatchTokens = options.maxBatchTokens ?? 20_000;
+    this.maxBatchInputs = options.maxBatchInputs ?? 2048;
+    this.maxRetries = options.maxRetries ?? 6;
+    this.limiter = new RateLimiter(options.tokensPerMinute ?? 0, options.requestsPerMinute ?? 0);
+  }
+
+  async run(texts: string[], embed: (batch: string[]) => Promise<number[][]>): Promise<number[][]> {
+    const results: number[][] = new Array(texts.length);
+    const queue = this.pack(texts);
+    const totalBatches = queue.length;
+    const running = new Set<Promise<void>>();
+    let completed = 0;
+    let failure: unknown;
+
+    if (totalBatches > 1) {
+      console.log(`   - ${texts.length} textos em ${totalBatches} requisições (até ${this.concurrency} simultâneas)`);
+    }
+
+    while ((queue.length > 0 || running.size > 0) && failure === undefined) {
+      if (queue.length > 0 && running.size < this.concurrency) {
+        const batch = queue.shift()!;
+        await this.limiter.acquire(batch.tokens);
+
+        const task: Promise<void> = this.execute(batch, texts, embed, results, queue)
+          .then(done => {
+            if (done && totalBatches > 1) {
+              completed++;
+              console.log(`   ✅ Requisição ${completed}/${totalBatches} (${batch.indexes.length} textos, ${batch.tokens} tokens)`);
+            }
+          })
+          .catch(error => {
+            failure = failure ?? error;
+          })
+          .finally(() => running.delete(task));
+        running.add(task);
+        continue;
+      }
+
+      await Promise.race(running);
+    }
+
+    if (failure !== undefined) {
+      await Promise.allSettled(running);
+      throw failure;
+    }
+
+    return results;
+  }
+
+  getStats(): EmbeddingSchedulerStats {
+    return { ...this.stats, waitedMs: this.limiter.waitedMs };
+  }
+
+  // Lotes consecutivos até maxBatchTokens / maxBatchInputs (um texto maior que o limite vai sozinho)
+  private pack(texts: string[]): PendingBatch[] {
+    const batches: PendingBatch[] = [];
+    let current: PendingBatch = { indexes: [], tokens: 0, attempt: 0 };
+
+    texts.forEach((text, index) => {
+      const tokens = this.countTokens(text);
+      if (
+        current.indexes.length > 0 &&
+        (current.tokens + tokens > this.maxBatchTokens || current.indexes.length >= this.maxBatchInputs)
+      ) {
+        batches.push(current);
+        current = { indexes: [], tokens: 0, attempt: 0 };
+      }
+      current.indexes.push(index);
+      current.tokens += tokens;
+    });
+
+    if (current.indexes.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  // Retorna false quando o lote voltou para a fila
+  private async execute(
+    batch: PendingBatch,
+    texts: string[],
+    embed: (batch: string[]) => Promise<number[][]>,
+    results: number[][],
+    queue: PendingBatch[]
+  ): Promise<boolean> {
+    try {
+      this.stats.requests++;
+      const embeddings = await embed(batch.indexes.map(index => texts[index]));
+      if (embeddings.length !== batch.indexes.length) {
+        throw new Error(`Esperados ${batch.indexes.length} embeddings, recebidos ${embeddings.length}`);
+      }
+
+      batch.indexes.forEach((textIndex, position) => (results[textIndex] = embeddings[position]));
+      this.stats.tokens += batch.tokens;
+      this.onSuccess();
+      return true;
+    } catch (error) {
+      batch.attempt++;
+      if (batch.attempt > this.maxRetries || !this.isRetryable(error)) {
+        throw error;
+      }
+
+      this.stats.retries++;
+      const retryAfter = this.retryAfterMs(error);
+      const wait = retryAfter ?? this.backoffMs(batch.attempt);
+
+      if (this.isRateLimitError(error)) {
+        // Todas as requisições param até o fim do Retry-After; a concorrência cai pela metade
+        this.stats.rateLimited++;
+        this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+        this.successesSinceBackoff = 0;
+        this.limiter.pause(wait);
+        console.log(
+          `   ⏳ Rate limit (tentativa ${batch.attempt}/${this.maxRetries}): aguardando ${wait}ms` +
+          `${retryAfter !== undefined ? ' (Retry-After)' : ''}, concorrência reduzida para ${this.concurrency}`
+        );
+      } else {
+        console.log(
+          `   ⚠️ Requisição falhou (tentativa ${batch.attempt}/${this.maxRetries}): ` +
+          `${error instanceof Error ? error.message : error}; nova tentativa em ${wait}ms`
+        );
+        await sleep(wait);
+      }
+
+      queue.unshift(batch);
+      return false;
+    }
+  }
+
+  // Recupera a concorrência aos poucos: +1 a cada "concorrência atual" requisições sem 429
+  private onSuccess(): void {
+    this.successesSinceBackoff++;
+    if (this.concurrency < this.maxConcurrency && this.successesSinceBackoff >= this.concurrency) {
+      this.concurrency++;
+      this.successesSinceBackoff = 0;
+    }
+  }
+
+  private isRateLimitError(error: any): boolean {
+    if (error?.status === 429) {
+      return true;
+    }
+    const message = error?.message?.toLowerCase() || '';
+    return message.includes('rate limit') || message.includes('too many requests');
+  }
+
+  private isRetryable(error: any): boolean {
+    if (error?.error?.code === 'insufficient_quota' || error?.code === 'insufficient_quota') {
+      return false;
+    }
+    return !STATUS_NO_RETRY.includes(Number(error?.status));
+  }
+
+  // Retry-After em segundos ou data HTTP; retry-after-ms (OpenAI) tem precedência
+  private retryAfterMs(error: any): number | undefined {
+    const headers = error?.headers;
+    const header = (name: string): string | undefined =>
+      typeof headers?.get === 'function' ? headers.get(name) ?? undefined : headers?.[name];
+
+    const milliseconds = parseFloat(header('retry-after-ms') ?? '');
+    if (!isNaN(milliseconds) && milliseconds >= 0) {
+      return Math.ceil(milliseconds);
+    }
+
+    const retryAfter = header('retry-after');
+    if (retryAfter === undefined) {
+      return undefined;
+    }
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds) && seconds >= 0) {
+      return Math.ceil(seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  // Backoff exponencial com jitter: ~1s, 2s, 4s... até 60s
+  private backoffMs(attempt: number): number {
+    const base = Math.min(MAX_BACKOFF_MS, 1000 * Math.pow(2, attempt - 1));
+    return Math.round(base / 2 + Math.random() * (base / 2));
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,24 +1,31 @@
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { Document } from 'langchain/document';
-import { config } from '../config/config';
+import { EmbeddingProvider } from './embeddingProvider';
+import { CachedEmbeddingProvider, EmbeddingCacheStats } from './embeddingCache';
+import { IngestionJob, runIsolatingFailures } from '../utils/ingestionJob';
+import type { VectorStore } from './vectorStore';
+
+// Documento com o vetor separado dos metadados: o vetor é gravado uma única vez, no campo vetorial do índice
+export interface EmbeddedDocument {
+  document: Document;
+  embedding: number[];
+}
 
 export interface EmbeddingConfig {
-  apiKey: string;
-  model: string;
+  // Mesmo provedor passado ao RedisVectorStoreService (ver createEmbeddingProvider)
+  provider: EmbeddingProvider;
+  // Documentos por lote gravado no Redis em embedAndSaveInBatches
   batchSize?: number;
 }
 
 export class EmbeddingService {
-  private embeddings: OpenAIEmbeddings;
+  private embeddings: EmbeddingProvider;
+  private model: string;
   private batchSize: number;
 
   constructor(embeddingConfig: EmbeddingConfig) {
-    this.batchSize = embeddingConfig.batchSize || 50;
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: embeddingConfig.apiKey,
-      modelName: embeddingConfig.model,
-      batchSize: this.batchSize,
-    });
+    this.batchSize = embeddingConfig.batchSize || 500;
+    this.embeddings = embeddingConfig.provider;
+    this.model = embeddingConfig.provider.model;
   }
 
   async createEmbeddings(texts: string[]): Promise<number[][]> {
@@ -47,157 +54,88 @@ export class EmbeddingService {
     }
   }
 
-  async embedDocuments(documents: Document[]): Promise<Document[]> {
-    console.log(`\n🧠 CRIANDO EMBEDDINGS (VERSÃO OTIMIZADA):`);
+  async embedDocuments(documents: Document[]): Promise<EmbeddedDocument[]> {
+    console.log(`\n🧠 CRIANDO EMBEDDINGS:`);
     console.log(`   - Documentos para processar: ${documents.length}`);
-    console.log(`   - Modelo: ${this.embeddings.modelName}`);
-    console.log(`   - Batch size: ${this.batchSize}`);
-    console.log(`   - Processamento em lotes para evitar timeouts`);
+    console.log(`   - Modelo: ${this.model}`);
     
     try {
       // Extrair textos dos documentos
       const texts = documents.map(doc => doc.pageContent);
-      console.log(`   - Textos extraídos: ${texts.length}`);
       
       // Log do primeiro texto como exemplo
       if (texts.length > 0) {
         console.log(`   - Exemplo de texto (100 chars): ${texts[0].substring(0, 100)}...`);
       }
       
-      console.log(`\n⏳ Processando embeddings em lotes...`);
-      
-      // Processar em lotes com retry e rate limiting
-      const embeddings = await this.createEmbeddingsInBatches(texts);
+      // O provedor divide os textos em requisições por tokens, em paralelo e dentro do orçamento por minuto
+      const embeddings = await this.createEmbeddings(texts);
       
       console.log(`\n✅ EMBEDDINGS CRIADOS:`);
       console.log(`   - Total de embeddings: ${embeddings.length}`);
       console.log(`   - Dimensão de cada embedding: ${embeddings[0]?.length || 'N/A'}`);
       console.log(`   - Exemplo do primeiro embedding (5 primeiros valores): [${embeddings[0]?.slice(0, 5).join(', ')}...]`);
       
-      // Adicionar embeddings aos metadados dos documentos
-      const embeddedDocuments = documents.map((doc, index) => {
-        return new Document({
-          pageContent: doc.pageContent,
-          metadata: {
-            ...doc.metadata,
-            embedding: embeddings[index],
-            embeddingModel: config.openai.embeddingModel,
-            embeddingCreatedAt: new Date().toISOString(),
-          },
-        });
-      });
-
-      console.log(`\n✅ EMBEDDINGS ADICIONADOS AOS DOCUMENTOS:`);
-      console.log(`   - Documentos processados: ${embeddedDocuments.length}`);
-      console.log(`   - Primeiro documento tem embedding?: ${embeddedDocuments[0]?.metadata.embedding ? 'SIM' : 'NÃO'}`);
-      
-      return embeddedDocuments;
+      return this.withEmbeddings(documents, embeddings);
     } catch (error) {
       console.error('❌ Erro ao criar embeddings para documentos:', error);
       throw error;
     }
   }
 
+  // Com um job, documentos já gravados são pulados e os que falham são isolados e registrados, sem abortar.
+  // Retorna os documentos gravados (sem os vetores, para não mantê-los todos em memória)
   async embedAndSaveInBatches(
     documents: Document[], 
-    vectorStoreService: any
+    vectorStoreService: VectorStore,
+    job?: IngestionJob
   ): Promise<Document[]> {
     console.log(`\n🧠 CRIANDO EMBEDDINGS E SALVANDO EM LOTES:`);
     console.log(`   - Documentos para processar: ${documents.length}`);
-    console.log(`   - Modelo: ${this.embeddings.modelName}`);
-    console.log(`   - Batch size: ${this.batchSize}`);
-    console.log(`   - Salvando no Redis a cada lote processado`);
+    console.log(`   - Modelo: ${this.model}`);
+    console.log(`   - Documentos por lote salvo no Redis: ${this.batchSize}`);
     
     try {
       const allEmbeddedDocuments: Document[] = [];
-      const totalBatches = Math.ceil(documents.length / this.batchSize);
+      const pending = job ? documents.filter(doc => !job.isStored(doc.metadata.id)) : documents;
+      const totalBatches = Math.ceil(pending.length / this.batchSize);
       
-      console.log(`   - Total de lotes: ${totalBatches}`);
-      console.log(`   - Documentos por lote: ${this.batchSize}`);
+      if (pending.length < documents.length) {
+        console.log(`   - Já gravados no job ${job!.id}: ${documents.length - pending.length}`);
+      }
       
-      for (let i = 0; i < documents.length; i += this.batchSize) {
+      const saveBatch = async (batch: Document[]) => {
+        const embeddedBatch = this.withEmbeddings(batch, await this.createEmbeddings(batch.map(doc => doc.pageContent)));
+        await vectorStoreService.storeDocuments(embeddedBatch);
+        await vectorStoreService.flush();
+        job?.markStored(batch.map(doc => doc.metadata.id).filter(Boolean));
+        allEmbeddedDocuments.push(...embeddedBatch.map(({ document }) => document));
+      };
+      
+      for (let i = 0; i < pending.length; i += this.batchSize) {
         const batchNumber = Math.floor(i / this.batchSize) + 1;
-        const batch = documents.slice(i, i + this.batchSize);
+        const batch = pending.slice(i, i + this.batchSize);
         
         console.log(`\n📦 Processando lote ${batchNumber}/${totalBatches} (${batch.length} documentos)...`);
         
-        try {
-          // Rate limiting: aguardar entre lotes
-          if (batchNumber > 1) {
-            const delay = this.calculateDelay(batchNumber);
-            console.log(`   - Aguardando ${delay}ms para rate limiting...`);
-            await this.sleep(delay);
-          }
-          
-          // Processar lote com retry
-          const batchEmbeddings = await this.processBatchWithRetry(batch.map(doc => doc.pageContent), batchNumber);
-          
-          // Adicionar embeddings aos metadados dos documentos do lote
-          const embeddedBatch = batch.map((doc, index) => {
-            return new Document({
-              pageContent: doc.pageContent,
-              metadata: {
-                ...doc.metadata,
-                embedding: batchEmbeddings[index],
-                embeddingModel: config.openai.embeddingModel,
-                embeddingCreatedAt: new Date().toISOString(),
-              },
-            });
+        if (job) {
+          await runIsolatingFailures(batch, saveBatch, (doc, error) => {
+            console.error(`   ❌ Documento ${doc.metadata.id} falhou:`, error instanceof Error ? error.message : error);
+            job.markFailed(doc.metadata.id, doc.metadata.source ?? 'desconhecida', error);
           });
-          
-          console.log(`   ✅ Lote ${batchNumber} processado com sucesso!`);
-          console.log(`   📊 Progresso: ${Math.min(i + this.batchSize, documents.length)}/${documents.length} (${Math.round(((i + this.batchSize) / documents.length) * 100)}%)`);
-          
-          // Salvar lote no Redis imediatamente
-          console.log(`   💾 Salvando lote ${batchNumber} no Redis...`);
-          await vectorStoreService.storeDocuments(embeddedBatch);
-          console.log(`   ✅ Lote ${batchNumber} salvo no Redis!`);
-          
-          // Adicionar ao array total
-          allEmbeddedDocuments.push(...embeddedBatch);
-          
-        } catch (error) {
-          console.error(`   ❌ Erro no lote ${batchNumber}:`, error);
-          
-          // Se for erro de rate limit, aguardar mais tempo
-          if (this.isRateLimitError(error)) {
-            console.log(`   ⏳ Rate limit detectado, aguardando 60 segundos...`);
-            await this.sleep(60000);
-            
-            // Tentar novamente o mesmo lote
-            try {
-              const batchEmbeddings = await this.processBatchWithRetry(batch.map(doc => doc.pageContent), batchNumber);
-              
-              const embeddedBatch = batch.map((doc, index) => {
-                return new Document({
-                  pageContent: doc.pageContent,
-                  metadata: {
-                    ...doc.metadata,
-                    embedding: batchEmbeddings[index],
-                    embeddingModel: config.openai.embeddingModel,
-                    embeddingCreatedAt: new Date().toISOString(),
-                  },
-                });
-              });
-              
-              console.log(`   💾 Salvando lote ${batchNumber} no Redis (após retry)...`);
-              await vectorStoreService.storeDocuments(embeddedBatch);
-              console.log(`   ✅ Lote ${batchNumber} salvo no Redis após retry!`);
-              
-              allEmbeddedDocuments.push(...embeddedBatch);
-            } catch (retryError) {
-              console.error(`   ❌ Falha definitiva no lote ${batchNumber}:`, retryError);
-              throw retryError;
-            }
-          } else {
-            throw error;
-          }
+        } else {
+          await saveBatch(batch);
         }
+        
+        console.log(`   ✅ Lote ${batchNumber} salvo no Redis!`);
+        console.log(`   📊 Progresso: ${i + batch.length}/${pending.length} (${Math.round(((i + batch.length) / pending.length) * 100)}%)`);
       }
       
       console.log(`\n✅ TODOS OS LOTES PROCESSADOS E SALVOS:`);
       console.log(`   - Total de documentos processados: ${allEmbeddedDocuments.length}`);
-      console.log(`   - Todos os lotes salvos no Redis: ✅`);
+      if (job && job.failedChunks().length > 0) {
+        console.log(`   - Documentos que falharam: ${job.failedChunks().length} (ver relatório do job ${job.id})`);
+      }
       
       return allEmbeddedDocuments;
     } catch (error) {
@@ -206,100 +144,35 @@ export class EmbeddingService {
     }
   }
 
-  private async createEmbeddingsInBatches(texts: string[]): Promise<number[][]> {
-    const allEmbeddings: number[][] = [];
-    const totalBatches = Math.ceil(texts.length / this.batchSize);
-    
-    console.log(`   - Total de lotes: ${totalBatches}`);
-    console.log(`   - Documentos por lote: ${this.batchSize}`);
-    
-    for (let i = 0; i < texts.length; i += this.batchSize) {
-      const batchNumber = Math.floor(i / this.batchSize) + 1;
-      const batch = texts.slice(i, i + this.batchSize);
-      
-      console.log(`\n📦 Processando lote ${batchNumber}/${totalBatches} (${batch.length} documentos)...`);
-      
-      try {
-        // Rate limiting: aguardar entre lotes
-        if (batchNumber > 1) {
-          const delay = this.calculateDelay(batchNumber);
-          console.log(`   - Aguardando ${delay}ms para rate limiting...`);
-          await this.sleep(delay);
-        }
-        
-        // Processar lote com retry
-        const batchEmbeddings = await this.processBatchWithRetry(batch, batchNumber);
-        allEmbeddings.push(...batchEmbeddings);
-        
-        console.log(`   ✅ Lote ${batchNumber} processado com sucesso!`);
-        console.log(`   📊 Progresso: ${Math.min(i + this.batchSize, texts.length)}/${texts.length} (${Math.round(((i + this.batchSize) / texts.length) * 100)}%)`);
-        
-      } catch (error) {
-        console.error(`   ❌ Erro no lote ${batchNumber}:`, error);
-        
-        // Se for erro de rate limit, aguardar mais tempo
-        if (this.isRateLimitError(error)) {
-          console.log(`   ⏳ Rate limit detectado, aguardando 60 segundos...`);
-          await this.sleep(60000);
-          
-          // Tentar novamente o mesmo lote
-          try {
-            const batchEmbeddings = await this.processBatchWithRetry(batch, batchNumber);
-            allEmbeddings.push(...batchEmbeddings);
-            console.log(`   ✅ Lote ${batchNumber} processado após retry!`);
-          } catch (retryError) {
-            console.error(`   ❌ Falha definitiva no lote ${batchNumber}:`, retryError);
-            throw retryError;
-          }
-        } else {
-          throw error;
-        }
-      }
-    }
-    
-    return allEmbeddings;
-  }
-
-  private async processBatchWithRetry(batch: string[], batchNumber: number, maxRetries: number = 3): Promise<number[][]> {
-    let lastError: any;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`   - Tentativa ${attempt}/${maxRetries} para lote ${batchNumber}`);
-        return await this.createEmbeddings(batch);
-      } catch (error) {
-        lastError = error;
-        console.log(`   - Tentativa ${attempt} falhou:`, error instanceof Error ? error.message : 'Erro desconhecido');
-        
-        if (attempt < maxRetries) {
-          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
-          console.log(`   - Aguardando ${delay}ms antes da próxima tentativa...`);
-          await this.sleep(delay);
-        }
-      }
-    }
-    
-    throw lastError;
-  }
-
-  private calculateDelay(batchNumber: number): number {
-    // Delay progressivo: 1s, 2s, 3s, etc.
-    return Math.min(batchNumber * 1000, 10000); // Máximo 10 segundos
+  // Os metadados recebem só o modelo e a data do embedding; o vetor fica ao lado do documento
+  private withEmbeddings(documents: Document[], embeddings: number[][]): EmbeddedDocument[] {
+    const createdAt = new Date().toISOString();
+    return documents.map((doc, index) => ({
+      document: new Document({
+        pageContent: doc.pageContent,
+        metadata: {
+          ...doc.metadata,
+          embeddingModel: this.model,
+          embeddingCreatedAt: createdAt,
+        },
+      }),
+      embedding: embeddings[index],
+    }));
   }
 
-  private isRateLimitError(error: any): boolean {
-    const errorMessage = error?.message?.toLowerCase() || '';
-    return errorMessage.includes('rate limit') || 
-           errorMessage.includes('too many requests') ||
-           errorMessage.includes('429');
+  getEmbeddingModel(): string {
+    return this.model;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Estatísticas do cache de embeddings (undefined se o provedor não usa cache)
+  getCacheStats(): EmbeddingCacheStats | undefined {
+    return this.embeddings instanceof CachedEmbeddingProvider ? this.embeddings.getStats() : undefined;
   }
 
-  getEmbeddingModel(): string {
-    return config.openai.embeddingModel;
+  async closeConnection(): Promise<void> {
+    if (this.embeddings instanceof CachedEmbeddingProvider) {
+      await this.embeddings.close();
+    }
   }
 
   getEmbeddingDimensions(): Promise<number> {
@@ -310,10 +183,10 @@ export class EmbeddingService {
   async testConnection(): Promise<boolean> {
     try {
       await this.createEmbedding('teste de conexão');
-      console.log('✅ Conexão com OpenAI Embeddings funcionando!');
+      console.log(`✅ Conexão com o provedor de embeddings funcionando: ${this.embeddings.describe()}`);
       return true;
     } catch (error) {
-      console.error('❌ Erro na conexão com OpenAI Embeddings:', error);
+      console.error(`❌ Erro na conexão com o provedor de embeddings (${this.embeddings.describe()}):`, error);
       return false;
     }
   }
@@ -0,0 +1,421 @@
+import fs from 'fs';
+import { Document } from 'langchain/document';
+import path from 'path';
+import { ProcessedParent } from '../utils/pdfProcessor';
+import { DEFAULT_HYBRID_SEARCH, HybridSearchConfig, fuseSearchResults } from '../utils/rankFusion';
+import { cosineSimilarity } from '../utils/vectorEncoding';
+import { EmbeddingProvider } from './embeddingProvider';
+import type { EmbeddedDocument } from './embeddingService';
+import { MetadataFilter, buildFilterExpression, matchesMetadataFilter, textTokens } from './redisIndexSchema';
+import { StoredMetadataValue, keepEmbeddingProvenance, toStoredMetadata } from './redisVectorStore';
+import type { SearchMode, VectorStore, VectorStoreIndexInfo } from './vectorStore';
+
+export const VECTOR_STORE_SNAPSHOT_VERSION = 1;
+
+export interface InMemoryVectorStoreConfig {
+  // Só identifica o store nos logs e no getIndexInfo (os manifestos da ingestão usam o mesmo nome)
+  indexName: string;
+  // Vetoriza as consultas; deve ser o mesmo provedor usado na ingestão
+  embeddingProvider: EmbeddingProvider;
+  // Arquivo JSON com os chunks e as passagens pai; sem ele, tudo se perde quando o processo termina
+  snapshotPath?: string;
+  hybridSearch?: HybridSearchConfig;
+}
+
+interface MemoryChunk {
+  content: string;
+  metadata: Record<string, StoredMetadataValue>;
+  vector: Float32Array;
+  // Tokens do conteúdo, para o BM25
+  tokens: string[];
+}
+
+/**
+ * Conteúdo do snapshot. Os vetores são gravados como listas de números,
+ * então o arquivo fica bem maior que a memória do Redis para o mesmo índice.
+ */
+interface VectorStoreSnapshot {
+  version: number;
+  indexName: string;
+  model: string;
+  savedAt: string;
+  chunks: { id: string; content: string; metadata: Record<string, StoredMetadataValue>; vector: number[] }[];
+  parents: { id: string; content: string; metadata: Record<string, any> }[];
+}
+
+// Parâmetros usuais do BM25 (os padrões do RediSearch)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Vector store no próprio processo, para rodar a ingestão, a busca e a API
+ * sem Redis com livros pequenos: busca exata por cosseno e BM25 sobre todos
+ * os chunks, com os mesmos scores (distância de cosseno), filtros e
+ * metadados do RedisVectorStoreService. Não tem versões do índice nem
+ * migração de modelo.
+ */
+export class InMemoryVectorStoreService implements VectorStore {
+  private config: InMemoryVectorStoreConfig;
+  private hybridSearch: HybridSearchConfig;
+  private chunks = new Map<string, MemoryChunk>();
+  private parents = new Map<string, Document>();
+  private loading?: Promise<void>;
+  // Próxima chave dos chunks gravados sem ID (como a numeração sequencial do Redis)
+  private nextKey = 0;
+  // Alterações ainda não gravadas no snapshot (ver flush)
+  private dirty = false;
+
+  constructor(vectorStoreConfig: InMemoryVectorStoreConfig) {
+    this.config = vectorStoreConfig;
+    this.hybridSearch = vectorStoreConfig.hybridSearch ?? DEFAULT_HYBRID_SEARCH;
+  }
+
+  static async create(vectorStoreConfig: InMemoryVectorStoreConfig): Promise<InMemoryVectorStoreService> {
+    const service = new InMemoryVectorStoreService(vectorStoreConfig);
+    await service.ready();
+    return service;
+  }
+
+  // Carrega o snapshot uma vez; depois de uma falha, a próxima chamada tenta de novo
+  async ready(): Promise<void> {
+    this.loading = this.loading ?? this.loadSnapshot();
+    try {
+      await this.loading;
+    } catch (error) {
+      this.loading = undefined;
+      throw error;
+    }
+  }
+
+  private async loadSnapshot(): Promise<void> {
+    const { snapshotPath, indexName, embeddingProvider } = this.config;
+    try {
+      if (!snapshotPath || !fs.existsSync(snapshotPath)) {
+        console.log(`✅ Vector store em memória inicializado (índice ${indexName}, vazio${snapshotPath ? '' : ', sem snapshot'})`);
+        return;
+      }
+
+      const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as VectorStoreSnapshot;
+      if (snapshot.version !== VECTOR_STORE_SNAPSHOT_VERSION) {
+        throw new Error(`Versão de snapshot não suportada (${snapshot.version}): ${snapshotPath}`);
+      }
+      if (snapshot.chunks.length > 0 && snapshot.model !== embeddingProvider.model) {
+        throw new Error(
+          `O snapshot ${snapshotPath} foi gravado com o modelo ${snapshot.model}, mas o provedor configurado usa ` +
+          `${embeddingProvider.model}: configure EMBEDDING_MODEL=${snapshot.model} ou apague o snapshot e refaça a ingestão`
+        );
+      }
+
+      for (const chunk of snapshot.chunks) {
+        this.chunks.set(chunk.id, {
+          content: chunk.content,
+          metadata: chunk.metadata,
+          vector: Float32Array.from(chunk.vector),
+          tokens: this.tokenize(chunk.content),
+        });
+        this.reserveKey(chunk.id);
+      }
+      for (const parent of snapshot.parents) {
+        this.parents.set(parent.id, new Document({ pageContent: parent.content, metadata: parent.metadata }));
+      }
+      console.log(`✅ Vector store em memória carregado de ${snapshotPath}: ${this.chunks.size} chunks, ${this.parents.size} passagens pai`);
+    } catch (error) {
+      console.error('❌ Erro ao carregar o snapshot do vector store:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Regrava o snapshot inteiro, se houve alterações desde a última gravação
+   * (escrita atômica: uma falha no meio nunca deixa o arquivo corrompido).
+   * As alterações só marcam o store como sujo: regravar todos os vetores a
+   * cada chunk tornaria a ingestão quadrática.
+   */
+  async flush(): Promise<void> {
+    const { snapshotPath } = this.config;
+    if (!snapshotPath || !this.dirty) {
+      return;
+    }
+
+    const snapshot: VectorStoreSnapshot = {
+      version: VECTOR_STORE_SNAPSHOT_VERSION,
+      indexName: this.config.indexName,
+      model: this.config.embeddingProvider.model,
+      savedAt: new Date().toISOString(),
+      chunks: Array.from(this.chunks, ([id, chunk]) => ({
+        id,
+        content: chunk.content,
+        metadata: chunk.metadata,
+        vector: Array.from(chunk.vector),
+      })),
+      parents: Array.from(this.parents, ([id, parent]) => ({ id, content: parent.pageContent, metadata: parent.metadata })),
+    };
+
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    const tempPath = `${snapshotPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+    fs.renameSync(tempPath, snapshotPath);
+    this.dirty = false;
+    console.log(`💾 Snapshot do vector store em memória gravado: ${this.chunks.size} chunks`);
+  }
+
+  async storeDocuments(documents: EmbeddedDocument[]): Promise<void> {
+    try {
+      await this.ready();
+      const model = this.config.embeddingProvider.model;
+      const otherModel = documents.find(({ document }) =>
+        document.metadata.embeddingModel && document.metadata.embeddingModel !== model
+      );
+      if (otherModel) {
+        throw new Error(
+          `O vector store usa o modelo ${model}, mas os documentos foram vetorizados com ` +
+          `${otherModel.document.metadata.embeddingModel}: configure EMBEDDING_MODEL=${model}`
+        );
+      }
+
+      const dimensions = this.chunks.values().next().value?.vector.length ?? documents[0]?.embedding.length;
+      const mismatch = documents.find(({ embedding }) => embedding.length !== dimensions);
+      if (mismatch) {
+        throw new Error(`Embedding com ${mismatch.embedding.length} dimensões num vector store de ${dimensions}`);
+      }
+
+      for (const { document, embedding } of documents) {
+        const id = document.metadata.id ?? String(this.nextKey);
+        this.chunks.set(id, {
+          content: document.pageContent,
+          metadata: toStoredMetadata(document.metadata),
+          vector: Float32Array.from(embedding),
+          tokens: this.tokenize(document.pageContent),
+        });
+        this.reserveKey(id);
+      }
+      this.dirty = true;
+      console.log(`💾 ${documents.length} documentos armazenados em memória (total: ${this.chunks.size})`);
+    } catch (error) {
+      console.error('❌ Erro ao armazenar documentos:', error);
+      throw error;
+    }
+  }
+
+  async deleteDocuments(ids: string[]): Promise<number> {
+    await this.ready();
+    const deleted = ids.filter(id => this.chunks.delete(id)).length;
+    if (deleted > 0) {
+      this.dirty = true;
+    }
+    console.log(`🗑️ ${deleted} documentos removidos da memória`);
+    return deleted;
+  }
+
+  async updateDocumentMetadata(id: string, metadata: Record<string, any>): Promise<boolean> {
+    await this.ready();
+    const chunk = this.chunks.get(id);
+    if (!chunk) {
+      return false;
+    }
+
+    chunk.metadata = keepEmbeddingProvenance(toStoredMetadata(metadata), chunk.metadata);
+    this.dirty = true;
+    return true;
+  }
+
+  async getDocumentById(id: string): Promise<Document | null> {
+    await this.ready();
+    const chunk = this.chunks.get(id);
+    return chunk ? new Document({ pageContent: chunk.content, metadata: { ...chunk.metadata } }) : null;
+  }
+
+  async searchSimilarDocuments(
+    query: string,
+    k: number = 5,
+    scoreThreshold?: number,
+    filter?: MetadataFilter
+  ): Promise<Document[]> {
+    const results = await this.searchSimilarDocumentsWithScore(query, k, filter);
+    return results
+      .filter(([, score]) => !scoreThreshold || score <= scoreThreshold)
+      .map(([document]) => document);
+  }
+
+  // Busca exata: a distância de cosseno (1 - similaridade) de todos os chunks que atendem ao filtro
+  async searchSimilarDocumentsWithScore(
+    query: string,
+    k: number = 5,
+    filter?: MetadataFilter
+  ): Promise<Array<[Document, number]>> {
+    console.log(`Buscando documentos similares com scores para: "${query}"`);
+
+    try {
+      await this.ready();
+      const candidates = this.filterChunks(filter);
+      const vector = await this.config.embeddingProvider.embedQuery(query);
+
+      const results = candidates
+        .map(([id, chunk]) => ({ id, chunk, distance: 1 - cosineSimilarity(chunk.vector, vector) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, k)
+        .map(({ id, chunk, distance }) => [this.toDocument(id, chunk), distance] as [Document, number]);
+
+      console.log(`✅ Encontrados ${results.length} documentos similares com scores`);
+      return results;
+    } catch (error) {
+      console.error('❌ Erro na busca semântica com scores:', error);
+      throw error;
+    }
+  }
+
+  // Mesma fusão do RedisVectorStoreService.searchHybrid, com o BM25 calculado aqui
+  async searchHybrid(
+    query: string,
+    k: number = 5,
+    mode: Exclude<SearchMode, 'vector'> = 'hybrid',
+    filter?: MetadataFilter
+  ): Promise<Array<[Document, number]>> {
+    console.log(`Buscando documentos (${mode === 'hybrid' ? 'híbrida' : 'textual'}) para: "${query}"`);
+
+    try {
+      await this.ready();
+      const candidates = Math.max(k, this.hybridSearch.candidates);
+      const lexical = this.bm25(query, this.filterChunks(filter)).slice(0, candidates);
+      const vector = mode === 'hybrid' ? await this.searchSimilarDocumentsWithScore(query, candidates, filter) : undefined;
+      const results = fuseSearchResults(lexical, vector, k, this.hybridSearch);
+
+      console.log(
+        `✅ Encontrados ${results.length} documentos (textual: ${lexical.length}` +
+        `${vector ? `, vetorial: ${vector.length}, fusão ${this.hybridSearch.method}` : ''})`
+      );
+      return results;
+    } catch (error) {
+      console.error('❌ Erro na busca híbrida:', error);
+      throw error;
+    }
+  }
+
+  async storeParentPassages(parents: ProcessedParent[]): Promise<void> {
+    if (parents.length === 0) {
+      return;
+    }
+
+    await this.ready();
+    for (const parent of parents) {
+      this.parents.set(parent.id, new Document({
+        pageContent: parent.content,
+        metadata: toStoredMetadata({ ...parent.metadata, id: parent.id }),
+      }));
+    }
+    this.dirty = true;
+    console.log(`📚 ${parents.length} passagens pai armazenadas`);
+  }
+
+  async getParentPassages(ids: string[]): Promise<Map<string, Document>> {
+    await this.ready();
+    const passages = new Map<string, Document>();
+    for (const id of ids) {
+      const parent = this.parents.get(id);
+      if (parent) {
+        passages.set(id, parent);
+      }
+    }
+    return passages;
+  }
+
+  async deleteParentPassages(ids: string[]): Promise<number> {
+    await this.ready();
+    const deleted = ids.filter(id => this.parents.delete(id)).length;
+    if (deleted > 0) {
+      this.dirty = true;
+    }
+    console.log(`🗑️ ${deleted} passagens pai removidas da memória`);
+    return deleted;
+  }
+
+  async getIndexInfo(): Promise<VectorStoreIndexInfo | null> {
+    await this.ready();
+    return {
+      indexName: this.config.indexName,
+      numDocs: this.chunks.size,
+      backend: 'memory',
+      parents: this.parents.size,
+      snapshotPath: this.config.snapshotPath,
+    };
+  }
+
+  async getActiveVersion(): Promise<{ version: number; model: string }> {
+    return { version: 1, model: this.config.embeddingProvider.model };
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.ready();
+      console.log('✅ Vector store em memória funcionando!');
+      return true;
+    } catch (error) {
+      console.error('❌ Erro no vector store em memória:', error);
+      return false;
+    }
+  }
+
+  // Nada a fechar: só grava o que ainda não está no snapshot
+  async closeConnection(): Promise<void> {
+    await this.flush();
+  }
+
+  // Valida o filtro com as mesmas regras do pré-filtro do Redis antes de aplicá-lo
+  private filterChunks(filter?: MetadataFilter): [string, MemoryChunk][] {
+    const chunks = Array.from(this.chunks);
+    if (!filter || !buildFilterExpression(filter)) {
+      return chunks;
+    }
+    return chunks.filter(([, chunk]) => matchesMetadataFilter(chunk.metadata, filter));
+  }
+
+  // BM25 dos chunks com algum termo da consulta, do maior score para o menor
+  private bm25(query: string, chunks: [string, MemoryChunk][]): [Document, number][] {
+    const terms = Array.from(new Set(this.tokenize(query)));
+    if (terms.length === 0 || chunks.length === 0) {
+      return [];
+    }
+
+    const averageLength = chunks.reduce((total, [, chunk]) => total + chunk.tokens.length, 0) / chunks.length;
+    const documentFrequency = new Map(terms.map(term => [
+      term,
+      chunks.filter(([, chunk]) => chunk.tokens.includes(term)).length,
+    ]));
+
+    return chunks
+      .map(([id, chunk]) => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = chunk.tokens.filter(token => token === term).length;
+          if (frequency === 0) {
+            continue;
+          }
+          const df = documentFrequency.get(term)!;
+          const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+          score += idf * frequency * (BM25_K1 + 1) /
+            (frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunk.tokens.length / averageLength));
+        }
+        return { id, chunk, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ id, chunk, score }) => [this.toDocument(id, chunk), score] as [Document, number]);
+  }
+
+  // A próxima chave sequencial fica depois da maior chave numérica em uso (e não no número de
+  // chunks, que depois de remoções pode coincidir com uma chave existente)
+  private reserveKey(id: string): void {
+    if (/^\d+$/.test(id)) {
+      this.nextKey = Math.max(this.nextKey, Number(id) + 1);
+    }
+  }
+
+  // O RediSearch não diferencia maiúsculas na busca textual
+  private tokenize(text: string): string[] {
+    return textTokens(text.toLowerCase());
+  }
+
+  private toDocument(id: string, chunk: MemoryChunk): Document {
+    return new Document({ pageContent: chunk.content, metadata: { id, ...chunk.metadata } });
+  }
+}
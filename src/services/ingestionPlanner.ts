@@ -0,0 +1,363 @@
+import { ChunkGroup, chunkToDocument } from './chunkLoaders';
+import { EmbeddingCache, embeddingCacheKey } from './embeddingCache';
+import { EmbeddingProviderConfig, HashEmbeddingProvider } from './embeddingProvider';
+import { toStoredMetadata } from './redisVectorStore';
+import { indexedMetadataFields } from './redisIndexSchema';
+import { IngestionManifestStore } from '../utils/ingestionManifest';
+import { metadataFingerprint } from '../utils/chunkIdentity';
+import { Tokenizer } from '../utils/tokenizer';
+import { FULL_PRECISION, VectorStorage, bytesPerVector, formatVectorStorage } from '../utils/vectorEncoding';
+
+// Preço (US$ por 1M tokens) e dimensão padrão dos modelos de embedding da OpenAI
+export const KNOWN_EMBEDDING_MODELS: Record<string, { pricePerMillionTokens: number; dimensions: number }> = {
+  'text-embedding-ada-002': { pricePerMillionTokens: 0.1, dimensions: 1536 },
+  'text-embedding-3-small': { pricePerMillionTokens: 0.02, dimensions: 1536 },
+  'text-embedding-3-large': { pricePerMillionTokens: 0.13, dimensions: 3072 },
+};
+
+// Estimativas de memória do Redis: aproximadas, variam com a versão do Redis Stack
+// Chave, estrutura do hash e nomes dos campos
+const KEY_OVERHEAD_BYTES = 200;
+// Grafo HNSW (M = 16) e tabela de documentos do índice vetorial, por vetor
+const VECTOR_INDEX_OVERHEAD_BYTES = 200;
+// Índice invertido do campo TEXT (content), em relação ao tamanho do texto
+const TEXT_INDEX_RATIO = 0.3;
+// Entradas dos campos TAG e NUMERIC (ver redisIndexSchema), por chunk
+const METADATA_INDEX_BYTES = 100;
+
+export interface IngestionPlannerConfig {
+  embedding: EmbeddingProviderConfig & { pricePerMillionTokens?: number };
+  keyPrefix: string;
+  // Padrão: o mesmo do RedisVectorStoreService (<prefixo>_parent:)
+  parentKeyPrefix?: string;
+  // Formato dos vetores no índice (padrão: FLOAT32, todas as dimensões)
+  vectorStorage?: VectorStorage;
+}
+
+export interface SourcePlan {
+  source: string;
+  chunks: number;
+  tokens: number;
+  // Chunks novos ou alterados: precisam de embedding
+  added: number;
+  addedTokens: number;
+  // Dos adicionados, os que já estão no cache de embeddings (sem custo)
+  cached: number;
+  cachedTokens: number;
+  // Só os metadados mudaram (regravados sem embedding)
+  updated: number;
+  removed: number;
+  parents: number;
+  parentsStored: number;
+  parentsRemoved: number;
+  // Chunks pulados por estarem inalterados desde a última ingestão
+  unchangedChunkIds: string[];
+}
+
+export interface EmbeddingCostEstimate {
+  model: string;
+  // undefined: preço desconhecido (configure EMBEDDING_PRICE_PER_MILLION)
+  pricePerMillionTokens?: number;
+  cost?: number;
+}
+
+// Memória estimada do índice depois da ingestão, em bytes
+export interface RedisMemoryEstimate {
+  vectors: number;
+  content: number;
+  metadata: number;
+  index: number;
+  parents: number;
+  overhead: number;
+  total: number;
+}
+
+export interface IngestionPlan {
+  provider: string;
+  model: string;
+  // 0 = desconhecida (a memória dos vetores não entra na estimativa)
+  dimensions: number;
+  vectorStorage: VectorStorage;
+  cacheBackend: string;
+  sources: SourcePlan[];
+  // Fontes com manifesto que não têm mais chunks (serão removidas)
+  removedSources: string[];
+  totals: Omit<SourcePlan, 'source' | 'unchangedChunkIds'> & { unchanged: number };
+  // Tokens enviados ao provedor: chunks adicionados que não estão no cache
+  billableTokens: number;
+  cost: EmbeddingCostEstimate;
+  // Custo dos mesmos tokens nos modelos conhecidos da OpenAI
+  comparison: EmbeddingCostEstimate[];
+  memory: RedisMemoryEstimate;
+}
+
+/**
+ * Simula a ingestão incremental sem rede: lê os chunks e os manifestos,
+ * conta os tokens com o tokenizador local e estima o custo dos embeddings e
+ * a memória do Redis. Classifica os chunks como na IngestionService.
+ */
+export class IngestionPlanner {
+  private model: string;
+  // Dimensão usada na chave do cache (0 = padrão do modelo), como no CachedEmbeddingProvider
+  private cacheDimensions: number;
+  private vectorDimensions: number;
+  // Bytes de cada vetor no formato do índice (0 = dimensão desconhecida)
+  private vectorBytes: number;
+  private parentKeyPrefix: string;
+  private tokenizer: Tokenizer;
+
+  constructor(
+    private config: IngestionPlannerConfig,
+    private manifests: IngestionManifestStore,
+    private cache?: EmbeddingCache
+  ) {
+    const embedding = config.embedding;
+    if (embedding.provider === 'hash') {
+      // O provedor hash é local: resolve o nome do modelo e a dimensão como na ingestão
+      const provider = new HashEmbeddingProvider(embedding.dimensions);
+      this.model = provider.model;
+      this.cacheDimensions = provider.dimensions;
+      this.vectorDimensions = provider.dimensions;
+    } else {
+      this.model = embedding.model;
+      this.cacheDimensions = embedding.dimensions || 0;
+      this.vectorDimensions = embedding.dimensions || KNOWN_EMBEDDING_MODELS[embedding.model]?.dimensions || 0;
+    }
+    const storage = config.vectorStorage ?? FULL_PRECISION;
+    this.vectorBytes = this.vectorDimensions > 0 || storage.dimensions > 0
+      ? bytesPerVector(storage, this.vectorDimensions || storage.dimensions)
+      : 0;
+    this.parentKeyPrefix = config.parentKeyPrefix ?? `${config.keyPrefix.replace(/:$/, '')}_parent:`;
+    this.tokenizer = new Tokenizer(this.model);
+  }
+
+  async plan(groups: ChunkGroup[]): Promise<IngestionPlan> {
+    const memory: RedisMemoryEstimate = { vectors: 0, content: 0, metadata: 0, index: 0, parents: 0, overhead: 0, total: 0 };
+    const sources: SourcePlan[] = [];
+
+    for (const group of groups) {
+      sources.push(await this.planGroup(group, memory));
+    }
+
+    const currentSources = new Set(groups.map(group => group.source));
+    const removedSources = this.manifests.listSources().filter(source => !currentSources.has(source));
+    const removed = removedSources.map(source => this.manifests.load(source));
+
+    const totals = sources.reduce(
+      (total, plan) => ({
+        chunks: total.chunks + plan.chunks,
+        tokens: total.tokens + plan.tokens,
+        added: total.added + plan.added,
+        addedTokens: total.addedTokens + plan.addedTokens,
+        cached: total.cached + plan.cached,
+        cachedTokens: total.cachedTokens + plan.cachedTokens,
+        updated: total.updated + plan.updated,
+        unchanged: total.unchanged + plan.unchangedChunkIds.length,
+        removed: total.removed + plan.removed,
+        parents: total.parents + plan.parents,
+        parentsStored: total.parentsStored + plan.parentsStored,
+        parentsRemoved: total.parentsRemoved + plan.parentsRemoved,
+      }),
+      {
+        chunks: 0, tokens: 0, added: 0, addedTokens: 0, cached: 0, cachedTokens: 0, updated: 0, unchanged: 0,
+        removed: removed.reduce((total, manifest) => total + Object.keys(manifest.chunks).length, 0),
+        parents: 0, parentsStored: 0,
+        parentsRemoved: removed.reduce((total, manifest) => total + Object.keys(manifest.parents ?? {}).length, 0),
+      }
+    );
+
+    memory.total = memory.vectors + memory.content + memory.metadata + memory.index + memory.parents + memory.overhead;
+    const billableTokens = totals.addedTokens - totals.cachedTokens;
+
+    return {
+      provider: this.config.embedding.provider,
+      model: this.model,
+      dimensions: this.vectorDimensions,
+      vectorStorage: this.config.vectorStorage ?? FULL_PRECISION,
+      cacheBackend: this.cache?.backend ?? 'none',
+      sources,
+      removedSources,
+      totals,
+      billableTokens,
+      cost: this.estimateCost(this.model, billableTokens, this.configuredPrice()),
+      comparison: Object.entries(KNOWN_EMBEDDING_MODELS).map(([model, known]) =>
+        this.estimateCost(model, billableTokens, known.pricePerMillionTokens)
+      ),
+      memory,
+    };
+  }
+
+  private async planGroup(group: ChunkGroup, memory: RedisMemoryEstimate): Promise<SourcePlan> {
+    const manifest = this.manifests.load(group.source);
+    const plan: SourcePlan = {
+      source: group.source, chunks: 0, tokens: 0, added: 0, addedTokens: 0, cached: 0, cachedTokens: 0, updated: 0,
+      removed: 0, parents: 0, parentsStored: 0, parentsRemoved: 0, unchangedChunkIds: [],
+    };
+    const seen = new Set<string>();
+    const added: { text: string; tokens: number }[] = [];
+
+    if (group.readParents) {
+      const seenParents = new Set<string>();
+      for await (const parent of group.readParents()) {
+        seenParents.add(parent.id);
+        plan.parents++;
+        if (manifest.parents?.[parent.id] !== metadataFingerprint(parent.metadata)) {
+          plan.parentsStored++;
+        }
+        // Passagens pai são hashes simples, fora do índice
+        memory.parents += KEY_OVERHEAD_BYTES + Buffer.byteLength(this.parentKeyPrefix + parent.id) +
+          Buffer.byteLength(parent.content) + Buffer.byteLength(JSON.stringify(toStoredMetadata({ ...parent.metadata, id: parent.id })));
+      }
+      plan.parentsRemoved = Object.keys(manifest.parents ?? {}).filter(id => !seenParents.has(id)).length;
+    }
+
+    for await (const chunk of group.read()) {
+      if (seen.has(chunk.id)) {
+        throw new Error(`ID de chunk duplicado em ${group.source}: ${chunk.id}`);
+      }
+      seen.add(chunk.id);
+
+      const document = chunkToDocument(chunk);
+      const tokens = this.tokenizer.count(document.pageContent);
+      const known = manifest.chunks[chunk.id];
+      plan.chunks++;
+      plan.tokens += tokens;
+
+      if (known === metadataFingerprint(document.metadata)) {
+        plan.unchangedChunkIds.push(chunk.id);
+      } else if (known !== undefined) {
+        plan.updated++;
+      } else {
+        plan.added++;
+        plan.addedTokens += tokens;
+        added.push({ text: document.pageContent, tokens });
+      }
+
+      this.addChunkMemory(memory, chunk.id, document.pageContent, document.metadata);
+    }
+
+    plan.removed = Object.keys(manifest.chunks).filter(id => !seen.has(id)).length;
+    await this.countCached(added, plan);
+    return plan;
+  }
+
+  // Mesmo formato gravado pelo RedisVectorStoreService: vetor no formato do índice, conteúdo,
+  // metadados escalares em JSON e a cópia dos metadados indexados
+  private addChunkMemory(memory: RedisMemoryEstimate, id: string, content: string, metadata: Record<string, any>): void {
+    const contentBytes = Buffer.byteLength(content);
+    const stored = toStoredMetadata({
+      ...metadata,
+      embeddingModel: this.model,
+      embeddingCreatedAt: new Date().toISOString(),
+    });
+    const metadataBytes = Buffer.byteLength(JSON.stringify(stored)) +
+      Object.entries(indexedMetadataFields(stored)).reduce((total, [field, value]) => total + field.length + String(value).length, 0);
+
+    memory.vectors += this.vectorBytes;
+    memory.content += contentBytes;
+    memory.metadata += metadataBytes;
+    memory.index += this.vectorBytes + VECTOR_INDEX_OVERHEAD_BYTES + METADATA_INDEX_BYTES +
+      Math.round(contentBytes * TEXT_INDEX_RATIO);
+    memory.overhead += KEY_OVERHEAD_BYTES + Buffer.byteLength(this.config.keyPrefix + id);
+  }
+
+  // Chunks adicionados com embedding no cache não são enviados ao provedor
+  private async countCached(added: { text: string; tokens: number }[], plan: SourcePlan): Promise<void> {
+    if (!this.cache || added.length === 0) {
+      return;
+    }
+
+    const cached = await this.cache.getMany(
+      added.map(({ text }) => embeddingCacheKey(this.model, this.cacheDimensions, text))
+    );
+    cached.forEach((vector, index) => {
+      if (vector) {
+        plan.cached++;
+        plan.cachedTokens += added[index].tokens;
+      }
+    });
+  }
+
+  // Provedores locais não têm custo por token, a menos que um preço seja configurado
+  private configuredPrice(): number | undefined {
+    const embedding = this.config.embedding;
+    if (embedding.pricePerMillionTokens !== undefined) {
+      return embedding.pricePerMillionTokens;
+    }
+    return embedding.provider === 'openai' ? KNOWN_EMBEDDING_MODELS[this.model]?.pricePerMillionTokens : 0;
+  }
+
+  private estimateCost(model: string, tokens: number, pricePerMillionTokens?: number): EmbeddingCostEstimate {
+    return {
+      model,
+      pricePerMillionTokens,
+      cost: pricePerMillionTokens === undefined ? undefined : (tokens / 1_000_000) * pricePerMillionTokens,
+    };
+  }
+}
+
+// Linhas do relatório do plano; lista até maxListed chunks inalterados por fonte
+export function formatIngestionPlan(plan: IngestionPlan, maxListed: number = 10): string[] {
+  const lines: string[] = [];
+  const formatCost = (estimate: EmbeddingCostEstimate) => estimate.cost === undefined
+    ? `${estimate.model}: preço desconhecido (configure EMBEDDING_PRICE_PER_MILLION)`
+    : `${estimate.model}: US$ ${estimate.cost.toFixed(4)} (US$ ${estimate.pricePerMillionTokens}/1M tokens)`;
+
+  for (const source of plan.sources) {
+    lines.push(
+      `📚 ${source.source}: ${source.chunks} chunks, ${source.tokens} tokens — ` +
+      `adicionar: ${source.added} (${source.addedTokens} tokens, ${source.cached} no cache), ` +
+      `atualizar metadados: ${source.updated}, remover: ${source.removed}, inalterados: ${source.unchangedChunkIds.length}`
+    );
+    if (source.parents > 0 || source.parentsRemoved > 0) {
+      lines.push(`   passagens pai: ${source.parents} (gravar: ${source.parentsStored}, remover: ${source.parentsRemoved})`);
+    }
+    if (source.unchangedChunkIds.length > 0) {
+      const listed = source.unchangedChunkIds.slice(0, maxListed).join(', ');
+      const more = source.unchangedChunkIds.length - maxListed;
+      lines.push(`   pulados (inalterados): ${listed}${more > 0 ? ` e mais ${more}` : ''}`);
+    }
+  }
+  for (const source of plan.removedSources) {
+    lines.push(`🗑️ ${source}: fonte removida (chunks e passagens pai serão apagados)`);
+  }
+
+  const { totals, memory } = plan;
+  lines.push('');
+  lines.push(`📄 Documentos: ${plan.sources.length} (${plan.removedSources.length} removidos)`);
+  lines.push(`🧩 Chunks: ${totals.chunks} (${totals.tokens} tokens)`);
+  lines.push(
+    `   adicionar: ${totals.added}, atualizar metadados: ${totals.updated}, ` +
+    `remover: ${totals.removed}, inalterados: ${totals.unchanged}`
+  );
+  lines.push(
+    `🔢 Tokens a embedar: ${plan.billableTokens} ` +
+    `(${totals.addedTokens} dos chunks adicionados, ${totals.cached} chunks no cache ${plan.cacheBackend})`
+  );
+  lines.push(`💰 Custo estimado (${plan.provider}): ${formatCost(plan.cost)}`);
+  plan.comparison
+    .filter(estimate => estimate.model !== plan.cost.model)
+    .forEach(estimate => lines.push(`   ${formatCost(estimate)}`));
+
+  lines.push(`🧠 Memória estimada do Redis após a ingestão: ${formatBytes(memory.total)}`);
+  lines.push(
+    plan.dimensions > 0 || plan.vectorStorage.dimensions > 0
+      ? `   vetores: ${formatBytes(memory.vectors)} (${plan.dimensions || '?'} dimensões, gravados como ${formatVectorStorage(plan.vectorStorage)})`
+      : '   vetores: dimensão desconhecida (configure EMBEDDING_DIMENSIONS)'
+  );
+  lines.push(`   conteúdo: ${formatBytes(memory.content)}, metadados: ${formatBytes(memory.metadata)}`);
+  lines.push(`   índice (vetorial, texto e metadados): ${formatBytes(memory.index)}, chaves: ${formatBytes(memory.overhead)}`);
+  lines.push(`   passagens pai: ${formatBytes(memory.parents)}`);
+  return lines;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
@@ -0,0 +1,265 @@
+import { Document } from 'langchain/document';
+import { EmbeddingService } from './embeddingService';
+import { VectorStore } from './vectorStore';
+import { ChunkGroup, chunkToDocument } from './chunkLoaders';
+import { IngestionManifest, IngestionManifestStore } from '../utils/ingestionManifest';
+import { metadataFingerprint } from '../utils/chunkIdentity';
+import { IngestionJob, runIsolatingFailures } from '../utils/ingestionJob';
+import { ProcessedParent } from '../utils/pdfProcessor';
+
+export interface IngestionOptions {
+  // Chunks novos acumulados antes de criar embeddings (uma chamada ao provedor, dividida em requisições pelo agendador)
+  batchSize?: number;
+  // Documentos por gravação no Redis (o manifesto é salvo a cada gravação)
+  storeBatchSize?: number;
+}
+
+export interface IngestionSummary {
+  source: string;
+  // Chunks novos (ou com conteúdo alterado): embeddings criados e gravados
+  added: number;
+  // Mesmo conteúdo com metadados diferentes (ex: página, seção): só os metadados são regravados
+  updated: number;
+  // Chunks que não existem mais na fonte: removidos do Redis
+  removed: number;
+  unchanged: number;
+  // Chunks que falharam mesmo isolados (listados no relatório do job)
+  failed: number;
+  // Passagens pai gravadas (novas ou alteradas) e removidas
+  parentsStored: number;
+  parentsRemoved: number;
+}
+
+/**
+ * Ingestão incremental: compara os chunks de cada fonte com o manifesto da
+ * última ingestão e só cria embeddings para chunks novos, atualiza metadados
+ * alterados e remove do Redis os chunks que desapareceram.
+ */
+export class IngestionService {
+  private batchSize: number;
+  private storeBatchSize: number;
+
+  constructor(
+    private embeddingService: EmbeddingService,
+    private vectorStoreService: VectorStore,
+    private manifests: IngestionManifestStore,
+    options: IngestionOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 500;
+    this.storeBatchSize = options.storeBatchSize ?? 50;
+  }
+
+  // Fontes concluídas em uma execução anterior do mesmo job são puladas
+  async ingest(groups: ChunkGroup[], job: IngestionJob): Promise<IngestionSummary[]> {
+    const summaries: IngestionSummary[] = [];
+
+    for (const group of groups) {
+      if (job.isSourceCompleted(group.source)) {
+        console.log(`\n⏭️ Fonte já concluída no job ${job.id}: ${group.source}`);
+        continue;
+      }
+      summaries.push(await this.ingestGroup(group, job));
+      job.completeSource(group.source);
+    }
+
+    // Fontes que tinham manifesto mas não têm mais chunks
+    const currentSources = new Set(groups.map(group => group.source));
+    for (const source of this.manifests.listSources()) {
+      if (!currentSources.has(source)) {
+        summaries.push(await this.removeSource(source));
+      }
+    }
+
+    return summaries;
+  }
+
+  async ingestGroup(group: ChunkGroup, job: IngestionJob): Promise<IngestionSummary> {
+    console.log(`\n📚 Ingerindo fonte: ${group.source}`);
+
+    const manifest = this.manifests.load(group.source);
+    const summary = this.emptySummary(group.source);
+    const seen = new Set<string>();
+    let pending: Document[] = [];
+
+    try {
+      // Passagens pai primeiro: um chunk nunca aponta para uma passagem que ainda não existe
+      const seenParents = await this.ingestParents(group, manifest, summary);
+
+      for await (const chunk of group.read()) {
+        if (seen.has(chunk.id)) {
+          throw new Error(`ID de chunk duplicado em ${group.source}: ${chunk.id}`);
+        }
+        seen.add(chunk.id);
+
+        const document = chunkToDocument(chunk);
+        const fingerprint = metadataFingerprint(document.metadata);
+        const known = manifest.chunks[chunk.id];
+
+        if (known === fingerprint) {
+          summary.unchanged++;
+          continue;
+        }
+
+        // Chunk já gravado: só os metadados mudaram, o embedding continua válido
+        if (known !== undefined && await this.vectorStoreService.updateDocumentMetadata(chunk.id, document.metadata)) {
+          manifest.chunks[chunk.id] = fingerprint;
+          summary.updated++;
+          continue;
+        }
+
+        pending.push(document);
+        if (pending.length >= this.batchSize) {
+          summary.added += await this.storeBatch(pending, manifest, job, summary);
+          pending = [];
+        }
+      }
+
+      if (pending.length > 0) {
+        summary.added += await this.storeBatch(pending, manifest, job, summary);
+      }
+
+      // Removidos só depois de gravar os novos, para a busca nunca ficar sem o conteúdo da fonte
+      const vanished = Object.keys(manifest.chunks).filter(id => !seen.has(id));
+      if (vanished.length > 0) {
+        await this.vectorStoreService.deleteDocuments(vanished);
+        vanished.forEach(id => delete manifest.chunks[id]);
+        summary.removed = vanished.length;
+      }
+
+      const vanishedParents = Object.keys(manifest.parents ?? {}).filter(id => !seenParents.has(id));
+      if (vanishedParents.length > 0) {
+        await this.vectorStoreService.deleteParentPassages(vanishedParents);
+        vanishedParents.forEach(id => delete manifest.parents![id]);
+        summary.parentsRemoved = vanishedParents.length;
+      }
+
+      // O manifesto só registra o que o vector store já persistiu
+      await this.vectorStoreService.flush();
+      this.manifests.save(manifest);
+      console.log(`   ✅ ${this.formatSummary(summary)}`);
+      return summary;
+    } catch (error) {
+      // O manifesto guarda o que já foi gravado: uma nova execução continua de onde parou
+      await this.vectorStoreService.flush();
+      this.manifests.save(manifest);
+      console.error(`❌ Erro na ingestão de ${group.source}:`, error);
+      throw error;
+    }
+  }
+
+  async removeSource(source: string): Promise<IngestionSummary> {
+    console.log(`\n🗑️ Fonte removida: ${source}`);
+
+    const manifest = this.manifests.load(source);
+    const summary = this.emptySummary(source);
+    const ids = Object.keys(manifest.chunks);
+    const parentIds = Object.keys(manifest.parents ?? {});
+
+    await this.vectorStoreService.deleteDocuments(ids);
+    await this.vectorStoreService.deleteParentPassages(parentIds);
+    await this.vectorStoreService.flush();
+    this.manifests.delete(source);
+
+    summary.removed = ids.length;
+    summary.parentsRemoved = parentIds.length;
+    console.log(`   ✅ ${this.formatSummary(summary)}`);
+    return summary;
+  }
+
+  formatSummary(summary: Omit<IngestionSummary, 'source'>): string {
+    const failed = summary.failed > 0 ? `, falhas: ${summary.failed}` : '';
+    const parents = summary.parentsStored > 0 || summary.parentsRemoved > 0
+      ? ` (passagens pai: ${summary.parentsStored} gravadas, ${summary.parentsRemoved} removidas)`
+      : '';
+    return `adicionados: ${summary.added}, atualizados: ${summary.updated}, ` +
+      `removidos: ${summary.removed}, inalterados: ${summary.unchanged}${failed}${parents}`;
+  }
+
+  // Grava as passagens pai novas ou alteradas; retorna os IDs presentes na fonte
+  private async ingestParents(
+    group: ChunkGroup,
+    manifest: IngestionManifest,
+    summary: IngestionSummary
+  ): Promise<Set<string>> {
+    const seen = new Set<string>();
+    if (!group.readParents) {
+      return seen;
+    }
+
+    manifest.parents = manifest.parents ?? {};
+    let pending: ProcessedParent[] = [];
+
+    const flush = async () => {
+      await this.vectorStoreService.storeParentPassages(pending);
+      pending.forEach(parent => (manifest.parents![parent.id] = metadataFingerprint(parent.metadata)));
+      summary.parentsStored += pending.length;
+      pending = [];
+    };
+
+    for await (const parent of group.readParents()) {
+      seen.add(parent.id);
+      if (manifest.parents[parent.id] !== metadataFingerprint(parent.metadata)) {
+        pending.push(parent);
+      }
+      if (pending.length >= this.batchSize) {
+        await flush();
+      }
+    }
+    await flush();
+
+    return seen;
+  }
+
+  // Um lote que falha é dividido até isolar os chunks com problema, registrados no job
+  private async storeBatch(
+    documents: Document[],
+    manifest: IngestionManifest,
+    job: IngestionJob,
+    summary: IngestionSummary
+  ): Promise<number> {
+    const stored = new Set<string>();
+
+    await runIsolatingFailures(
+      documents,
+      async batchDocuments => {
+        // Sub-lotes já gravados antes de uma falha não são gravados de novo
+        const remaining = batchDocuments.filter(document => !stored.has(document.metadata.id));
+        const embeddedDocs = await this.embeddingService.embedDocuments(remaining);
+        const recorded: string[] = [];
+
+        try {
+          for (let i = 0; i < embeddedDocs.length; i += this.storeBatchSize) {
+            const batch = remaining.slice(i, i + this.storeBatchSize);
+            await this.vectorStoreService.storeDocuments(embeddedDocs.slice(i, i + this.storeBatchSize));
+
+            // Impressão digital dos metadados de origem de cada chunk gravado
+            for (const document of batch) {
+              manifest.chunks[document.metadata.id] = metadataFingerprint(document.metadata);
+              stored.add(document.metadata.id);
+              recorded.push(document.metadata.id);
+            }
+          }
+        } finally {
+          // Um checkpoint por lote de embeddings, também quando um sub-lote falha no meio: no
+          // backend em memória, cada flush regrava o snapshot inteiro
+          if (recorded.length > 0) {
+            await this.vectorStoreService.flush();
+            this.manifests.save(manifest);
+            job.markStored(recorded);
+          }
+        }
+      },
+      (document, error) => {
+        console.error(`   ❌ Chunk ${document.metadata.id} falhou:`, error instanceof Error ? error.message : error);
+        summary.failed++;
+        job.markFailed(document.metadata.id, manifest.source, error);
+      }
+    );
+
+    return stored.size;
+  }
+
+  private emptySummary(source: string): IngestionSummary {
+    return { source, added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0, parentsStored: 0, parentsRemoved: 0 };
+  }
+}
@@ -1,27 +1,82 @@
 import { DirectoryLoader } from 'langchain/document_loaders/fs/directory';
-import { JSONLoader } from 'langchain/document_loaders/fs/json';
 import { TextLoader } from 'langchain/document_loaders/fs/text';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
 import { Document } from 'langchain/document';
+import { TextChunker } from '../utils/textChunker';
+import { SemanticChunker } from '../utils/semanticChunker';
+import { EmbeddingProvider } from './embeddingProvider';
+import { withoutCache } from './embeddingCache';
+import { ChunkSizeUnit, Tokenizer } from '../utils/tokenizer';
+import { sortChunkFiles } from '../utils/chunkBundle';
+import {
+  ChunkBundleLoader,
+  ProcessedChunkLoader,
+  chunkToDocument,
+  isChunkDocument,
+  listChunkSources,
+  streamChunks,
+} from './chunkLoaders';
 import fs from 'fs';
 import path from 'path';
 
 export interface LangChainConfig {
   chunkSize: number;
   chunkOverlap: number;
+  // Unidade de chunkSize/chunkOverlap (padrão: caracteres)
+  chunkUnit?: ChunkSizeUnit;
+  // Modelo de embedding cujo tokenizador mede os chunks
+  tokenizerModel?: string;
   chunksDirectory: string;
+  // Divisão por tamanho fixo (padrão) ou semântica, por quedas de similaridade entre sentenças
+  chunkingStrategy?: ChunkingStrategy;
+  // Obrigatório na estratégia semântica (o mesmo provedor dos chunks; o cache de embeddings é ignorado)
+  embeddingProvider?: EmbeddingProvider;
+  semanticChunking?: SemanticChunkingConfig;
+}
+
+export type ChunkingStrategy = 'recursive' | 'semantic';
+
+export interface SemanticChunkingConfig {
+  // Tamanho mínimo do chunk antes de um breakpoint (padrão: 1/4 do chunkSize)
+  minChunkSize?: number;
+  // Sentenças comparadas de cada lado de uma fronteira (padrão: 2)
+  windowSize?: number;
+  // Percentil das distâncias a partir do qual há um breakpoint (padrão: 90)
+  breakpointPercentile?: number;
 }
 
 export class LangChainService {
   private config: LangChainConfig;
-  private textSplitter: RecursiveCharacterTextSplitter;
+  private textChunker: TextChunker;
+  private tokenizer: Tokenizer;
+  private semanticChunker?: SemanticChunker;
 
   constructor(config: LangChainConfig) {
     this.config = config;
-    this.textSplitter = new RecursiveCharacterTextSplitter({
+    this.tokenizer = new Tokenizer(config.tokenizerModel || 'text-embedding-ada-002');
+
+    if (config.chunkingStrategy === 'semantic') {
+      if (!config.embeddingProvider) {
+        throw new Error('A estratégia de chunking semântica requer um embeddingProvider');
+      }
+      // Os vetores das sentenças só servem para achar os breakpoints: não passam pelo cache
+      const provider = withoutCache(config.embeddingProvider);
+
+      // O chunkSize é o tamanho máximo; os chunks terminam nas mudanças de assunto
+      this.semanticChunker = new SemanticChunker({
+        embed: (texts: string[]) => provider.embedDocuments(texts),
+        maxChunkSize: config.chunkSize,
+        minChunkSize: config.semanticChunking?.minChunkSize,
+        windowSize: config.semanticChunking?.windowSize,
+        breakpointPercentile: config.semanticChunking?.breakpointPercentile,
+        lengthFunction: this.lengthFunction(),
+      });
+    }
+
+    // O mesmo chunker do PDFProcessor: listings de código nunca são divididos entre chunks
+    this.textChunker = new TextChunker({
       chunkSize: config.chunkSize,
-      chunkOverlap: config.chunkOverlap,
-      separators: ['\n\n', '\n', ' ', ''],
+      overlap: config.chunkOverlap,
+      lengthFunction: this.lengthFunction(),
     });
   }
 
@@ -34,17 +89,18 @@ export class LangChainService {
         throw new Error(`Diretório não encontrado: ${directoryPath}`);
       }
 
-      // Criar DirectoryLoader com suporte para JSON e TXT
+      // Criar DirectoryLoader com suporte para bundles JSONL, chunks JSON e TXT
       const loader = new DirectoryLoader(
         directoryPath,
         {
-          '.json': (path: string) => new JSONLoader(path),
+          '.jsonl': (path: string) => new ChunkBundleLoader(path),
+          '.json': (path: string) => new ProcessedChunkLoader(path),
           '.txt': (path: string) => new TextLoader(path),
         },
         true // recursivo
       );
 
-      const documents = await loader.load();
+      const documents = this.sortBySourceOrder(await loader.load());
       
       console.log(`Carregados ${documents.length} documentos`);
       
@@ -71,34 +127,110 @@ export class LangChainService {
     }
   }
 
+  // Lê os chunks já processados em streaming e na ordem dos chunks (bundles JSONL e arquivos legados)
+  async *streamChunkDocuments(directoryPath: string = this.config.chunksDirectory): AsyncGenerator<Document> {
+    if (!fs.existsSync(directoryPath)) {
+      throw new Error(`Diretório não encontrado: ${directoryPath}`);
+    }
+
+    for await (const chunk of streamChunks(listChunkSources(directoryPath))) {
+      yield chunkToDocument(chunk);
+    }
+  }
+
+  // O DirectoryLoader lê os arquivos em ordem lexical ("chunk_10" antes de "chunk_2"):
+  // reordena pela fonte e, nos chunks processados, pelo chunkIndex
+  private sortBySourceOrder(documents: Document[]): Document[] {
+    const sources = sortChunkFiles(Array.from(new Set(documents.map(doc => doc.metadata.source as string))));
+    const position = new Map(sources.map((source, index) => [source, index]));
+
+    return documents
+      .map((doc, index) => ({ doc, index }))
+      .sort((a, b) =>
+        (position.get(a.doc.metadata.source) ?? 0) - (position.get(b.doc.metadata.source) ?? 0) ||
+        (a.doc.metadata.chunkIndex ?? 0) - (b.doc.metadata.chunkIndex ?? 0) ||
+        a.index - b.index
+      )
+      .map(({ doc }) => doc);
+  }
+
   async splitDocumentsIntoChunks(documents: Document[]): Promise<Document[]> {
-    console.log(`Dividindo ${documents.length} documentos em chunks usando TokenTextSplitter`);
+    if (this.semanticChunker) {
+      return this.splitDocumentsSemantically(documents, this.semanticChunker);
+    }
+
+    console.log(
+      `Dividindo ${documents.length} documentos em chunks usando TextChunker ` +
+      `(${this.config.chunkSize} ${this.unitLabel()}, overlap de ${this.config.chunkOverlap})`
+    );
     
     try {
-      const chunks = await this.textSplitter.splitDocuments(documents);
-      
-      console.log(`Documentos divididos em ${chunks.length} chunks`);
-      
+      const chunks: Document[] = [];
+
       // Adicionar informações de chunk aos metadados
-      const enrichedChunks = chunks.map((chunk, index) => {
-        return new Document({
-          pageContent: chunk.pageContent,
-          metadata: {
-            ...chunk.metadata,
-            chunkIndex: index,
-            chunkSize: chunk.pageContent.length,
-            splitter: 'RecursiveCharacterTextSplitter',
-          },
-        });
-      });
+      for (const document of documents) {
+        for (const span of this.textChunker.splitStream(document.pageContent)) {
+          const pageContent = document.pageContent.slice(span.start, span.end);
+          chunks.push(new Document({
+            pageContent,
+            metadata: {
+              ...document.metadata,
+              chunkIndex: chunks.length,
+              chunkSize: pageContent.length,
+              tokenCount: this.tokenizer.count(pageContent),
+              containsCode: span.containsCode,
+              codeLanguage: span.codeLanguage,
+              splitter: 'TextChunker',
+            },
+          }));
+        }
+      }
 
-      return enrichedChunks;
+      console.log(`Documentos divididos em ${chunks.length} chunks`);
+      return chunks;
     } catch (error) {
       console.error('Erro ao dividir documentos em chunks:', error);
       throw error;
     }
   }
 
+  private async splitDocumentsSemantically(documents: Document[], chunker: SemanticChunker): Promise<Document[]> {
+    console.log(
+      `Dividindo ${documents.length} documentos em chunks usando SemanticChunker ` +
+      `(máximo de ${this.config.chunkSize} ${this.unitLabel()}, ` +
+      `percentil ${this.config.semanticChunking?.breakpointPercentile ?? 90})`
+    );
+
+    try {
+      const chunks: Document[] = [];
+
+      for (const document of documents) {
+        const spans = await chunker.split(document.pageContent);
+        for (const span of spans) {
+          const pageContent = document.pageContent.slice(span.start, span.end);
+          chunks.push(new Document({
+            pageContent,
+            metadata: {
+              ...document.metadata,
+              chunkIndex: chunks.length,
+              chunkSize: pageContent.length,
+              tokenCount: this.tokenizer.count(pageContent),
+              containsCode: span.containsCode,
+              codeLanguage: span.codeLanguage,
+              splitter: 'SemanticChunker',
+            },
+          }));
+        }
+      }
+
+      console.log(`Documentos divididos em ${chunks.length} chunks`);
+      return chunks;
+    } catch (error) {
+      console.error('Erro ao dividir documentos em chunks semânticos:', error);
+      throw error;
+    }
+  }
+
   async processDocumentsFromDirectory(directoryPath: string): Promise<Document[]> {
     console.log('Iniciando processamento completo dos documentos...');
     
@@ -107,9 +239,16 @@ export class LangChainService {
       console.log('1. Load - Carregando documentos...');
       const documents = await this.loadDocumentsFromDirectory(directoryPath);
       
-      // 2. Transform - Dividir em chunks
+      // 2. Transform - Dividir em chunks (chunks já processados são mantidos como estão)
       console.log('2. Transform - Dividindo em chunks...');
-      const chunks = await this.splitDocumentsIntoChunks(documents);
+      const chunkDocuments = documents.filter(isChunkDocument);
+      const rawDocuments = documents.filter(doc => !isChunkDocument(doc));
+      console.log(`   - Chunks já processados: ${chunkDocuments.length}`);
+      console.log(`   - Documentos a dividir: ${rawDocuments.length}`);
+
+      const chunks = rawDocuments.length > 0
+        ? [...chunkDocuments, ...(await this.splitDocumentsIntoChunks(rawDocuments))]
+        : chunkDocuments;
       
       console.log('Processamento de documentos concluído com sucesso!');
       return chunks;
@@ -119,35 +258,39 @@ export class LangChainService {
     }
   }
 
-  getTextSplitterConfig(): { chunkSize: number; chunkOverlap: number } {
+  getTextSplitterConfig(): {
+    chunkSize: number;
+    chunkOverlap: number;
+    chunkUnit: ChunkSizeUnit;
+    chunkingStrategy: ChunkingStrategy;
+  } {
     return {
       chunkSize: this.config.chunkSize,
       chunkOverlap: this.config.chunkOverlap,
+      chunkUnit: this.config.chunkUnit || 'characters',
+      chunkingStrategy: this.config.chunkingStrategy || 'recursive',
     };
   }
 
+  // Em tokens, os tamanhos são medidos pelo tokenizador do modelo de embedding
+  private lengthFunction(): ((text: string) => number) | undefined {
+    return this.config.chunkUnit === 'tokens' ? (text: string) => this.tokenizer.count(text) : undefined;
+  }
+
+  private unitLabel(): string {
+    return this.config.chunkUnit === 'tokens' ? `tokens (${this.tokenizer.encodingName})` : 'caracteres';
+  }
+
   // Método para criar chunks customizados se necessário
+  // (listings de código nunca são divididos entre chunks)
   createCustomChunks(text: string, customChunkSize?: number): string[] {
     const chunkSize = customChunkSize || this.config.chunkSize;
-    const chunks: string[] = [];
-    let start = 0;
-
-    while (start < text.length) {
-      const end = Math.min(start + chunkSize, text.length);
-      let chunk = text.slice(start, end);
-
-      // Tentar quebrar em uma palavra completa
-      if (end < text.length) {
-        const lastSpaceIndex = chunk.lastIndexOf(' ');
-        if (lastSpaceIndex > chunkSize * 0.8) {
-          chunk = chunk.slice(0, lastSpaceIndex);
-        }
-      }
-
-      chunks.push(chunk.trim());
-      start = start + chunk.length - this.config.chunkOverlap;
-    }
+    const chunker = new TextChunker({
+      chunkSize,
+      overlap: this.config.chunkOverlap,
+      lengthFunction: this.lengthFunction(),
+    });
 
-    return chunks;
+    return chunker.split(text).map(span => text.slice(span.start, span.end));
   }
-}
+}
\ No newline at end of file
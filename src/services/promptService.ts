@@ -16,18 +16,13 @@ export interface ContextualResponse {
 }
 
 export class PromptService {
-  private chat: ChatOpenAI;
+  // Criado na primeira resposta: busca e ingestão funcionam sem OPENAI_API_KEY
+  private chat?: ChatOpenAI;
   private config: PromptConfig;
   private systemPrompt: string;
 
   constructor(config: PromptConfig) {
     this.config = config;
-    this.chat = new ChatOpenAI({
-      modelName: config.model,
-      temperature: config.temperature || 0.7,
-      maxTokens: config.maxTokens || 1000,
-      openAIApiKey: process.env.OPENAI_API_KEY,
-    });
 
     this.systemPrompt = `Você é um assistente especializado EXCLUSIVAMENTE no livro "JavaScript: The Definitive Guide" de David Flanagan.
 
@@ -102,13 +97,13 @@ INSTRUÇÕES RIGOROSAS:
       // Usar o LLM real para gerar a resposta
       const prompt = `${this.systemPrompt}\n\nContexto do livro JavaScript: The Definitive Guide:\n\n${context}\n\nPergunta: ${question}\n\nResposta:`;
       
-      const response = await this.chat.invoke(prompt);
+      const response = await this.getChat().invoke(prompt);
       const answer = response.content.toString();
       
       return {
         answer,
         confidence: this.calculateConfidence(relevantDocuments, answer),
-        contextUsed: relevantDocuments.map(doc => doc.metadata.source || 'unknown'),
+        contextUsed: relevantDocuments.map(doc => this.formatSourceReference(doc)),
         isRelevant: true,
         source: 'llm_generated'
       };
@@ -124,6 +119,22 @@ INSTRUÇÕES RIGOROSAS:
     }
   }
 
+  private getChat(): ChatOpenAI {
+    if (!this.chat) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY é obrigatório para gerar respostas com o LLM. Configure no arquivo .env');
+      }
+
+      this.chat = new ChatOpenAI({
+        modelName: this.config.model,
+        temperature: this.config.temperature || 0.7,
+        maxTokens: this.config.maxTokens || 1000,
+        openAIApiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+    return this.chat;
+  }
+
   private isQuestionRelevant(question: string): boolean {
     const questionLower = question.toLowerCase();
     
@@ -246,7 +257,7 @@ INSTRUÇÕES RIGOROSAS:
 
     for (const doc of documents) {
       const docContent = includeMetadata 
-        ? `[Fonte: ${doc.metadata.source || 'Desconhecida'}]\n${doc.pageContent}\n\n`
+        ? `[Fonte: ${this.formatSourceReference(doc, 'Desconhecida')}]\n${doc.pageContent}\n\n`
         : `${doc.pageContent}\n\n`;
 
       if (currentLength + docContent.length > maxLength) {
@@ -260,6 +271,19 @@ INSTRUÇÕES RIGOROSAS:
     return context.trim();
   }
 
+  private formatSourceReference(doc: Document, fallback: string = 'unknown'): string {
+    const source = doc.metadata.source || fallback;
+    const { page, pageEnd } = doc.metadata;
+
+    if (typeof page !== 'number') {
+      return source;
+    }
+
+    // Chunks que cruzam páginas citam o intervalo completo
+    return typeof pageEnd === 'number' && pageEnd !== page
+      ? `${source} (p. ${page}-${pageEnd})`
+      : `${source} (p. ${page})`;
+  }
 
   private calculateConfidence(documents: Document[], answer: string): 'high' | 'medium' | 'low' {
     if (documents.length === 0) return 'low';
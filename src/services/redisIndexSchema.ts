@@ -0,0 +1,310 @@
+import { RediSearchSchema, SchemaFieldTypes, VectorAlgorithms } from 'redis';
+import { VectorStorage } from '../utils/vectorEncoding';
+
+export type VectorIndexAlgorithm = 'HNSW' | 'FLAT';
+export type VectorDistanceMetric = 'COSINE' | 'IP' | 'L2';
+
+/**
+ * Parâmetros do campo vetorial. M e EF_CONSTRUCTION (só HNSW) definem o
+ * grafo e só valem na criação do índice; EF_RUNTIME é enviado em cada
+ * consulta, então muda sem recriar o índice.
+ */
+export interface VectorIndexOptions {
+  algorithm: VectorIndexAlgorithm;
+  distanceMetric: VectorDistanceMetric;
+  m: number;
+  efConstruction: number;
+  efRuntime: number;
+}
+
+// Mesmos valores que o RediSearch usa quando o índice não informa nada
+export const DEFAULT_VECTOR_INDEX: VectorIndexOptions = {
+  algorithm: 'HNSW',
+  distanceMetric: 'COSINE',
+  m: 16,
+  efConstruction: 200,
+  efRuntime: 10,
+};
+
+// Campos do hash de cada chunk; os nomes são os do LangChain, para continuar lendo os índices antigos
+export const CONTENT_FIELD = 'content';
+export const VECTOR_FIELD = 'content_vector';
+// Metadados completos em JSON: devolvidos na busca, mas fora do índice
+export const METADATA_FIELD = 'metadata';
+
+// Metadados copiados para campos próprios do hash e indexados, para filtrar no próprio RediSearch
+export const INDEXED_METADATA_FIELDS: Record<string, 'TAG' | 'NUMERIC'> = {
+  source: 'TAG',
+  fileName: 'TAG',
+  chapter: 'TAG',
+  page: 'NUMERIC',
+  chunkIndex: 'NUMERIC',
+};
+
+// Nomes de arquivo podem ter vírgula, o separador padrão dos campos TAG
+export const TAG_SEPARATOR = '|';
+
+export function buildIndexSchema(
+  storage: VectorStorage,
+  dimensions: number,
+  options: VectorIndexOptions
+): RediSearchSchema {
+  // A escala do INT8 é descartada na quantização (ver encodeVector): só o cosseno não depende dela
+  if (storage.type === 'INT8' && options.distanceMetric !== 'COSINE') {
+    throw new Error(`Vetores INT8 exigem a distância COSINE (configurada: ${options.distanceMetric})`);
+  }
+
+  const vector = options.algorithm === 'HNSW'
+    ? {
+      type: SchemaFieldTypes.VECTOR,
+      ALGORITHM: VectorAlgorithms.HNSW,
+      TYPE: storage.type,
+      DIM: dimensions,
+      DISTANCE_METRIC: options.distanceMetric,
+      M: options.m,
+      EF_CONSTRUCTION: options.efConstruction,
+    } as const
+    : {
+      type: SchemaFieldTypes.VECTOR,
+      ALGORITHM: VectorAlgorithms.FLAT,
+      TYPE: storage.type,
+      DIM: dimensions,
+      DISTANCE_METRIC: options.distanceMetric,
+    } as const;
+
+  const schema: RediSearchSchema = {
+    [VECTOR_FIELD]: vector,
+    [CONTENT_FIELD]: SchemaFieldTypes.TEXT,
+  };
+  for (const [field, type] of Object.entries(INDEXED_METADATA_FIELDS)) {
+    schema[field] = type === 'TAG'
+      ? { type: SchemaFieldTypes.TAG, SEPARATOR: TAG_SEPARATOR }
+      : SchemaFieldTypes.NUMERIC;
+  }
+  return schema;
+}
+
+// Valores dos campos indexados de um chunk; campos ausentes (ou não numéricos, nos NUMERIC) ficam de fora
+export function indexedMetadataFields(metadata: Record<string, any>): Record<string, string | number> {
+  const fields: Record<string, string | number> = {};
+
+  for (const [field, type] of Object.entries(INDEXED_METADATA_FIELDS)) {
+    const value = metadata[field];
+    if (type === 'NUMERIC' && typeof value === 'number' && isFinite(value)) {
+      fields[field] = value;
+    } else if (type === 'TAG' && (typeof value === 'string' || typeof value === 'number') && value !== '') {
+      fields[field] = String(value).split(TAG_SEPARATOR).join(' ');
+    }
+  }
+  return fields;
+}
+
+/**
+ * Compara um índice existente (resposta do FT.INFO) com o esquema esperado
+ * e descreve cada diferença. Parâmetros que o FT.INFO desta versão do Redis
+ * não informa não são comparados.
+ */
+export function detectSchemaDrift(
+  info: { attributes?: Record<string, any>[]; indexDefinition?: Record<string, any> },
+  expected: { storage: VectorStorage; dimensions?: number; options: VectorIndexOptions; keyPrefix: string }
+): string[] {
+  const drift: string[] = [];
+  const attributes = new Map<string, Record<string, string>>();
+  for (const attribute of info.attributes ?? []) {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(attribute)) {
+      if (value !== undefined && value !== null) {
+        normalized[key.toLowerCase()] = String(value);
+      }
+    }
+    attributes.set(normalized.attribute ?? normalized.identifier, normalized);
+  }
+
+  const expectedTypes: Record<string, string> = {
+    [VECTOR_FIELD]: 'VECTOR',
+    [CONTENT_FIELD]: 'TEXT',
+    ...INDEXED_METADATA_FIELDS,
+  };
+  for (const [field, type] of Object.entries(expectedTypes)) {
+    const actual = attributes.get(field);
+    if (!actual) {
+      drift.push(`campo ${field} (${type}) ausente no índice`);
+    } else if (actual.type?.toUpperCase() !== type) {
+      drift.push(`campo ${field}: ${actual.type} no índice, ${type} no esquema`);
+    }
+  }
+  for (const [field, actual] of attributes) {
+    if (!(field in expectedTypes)) {
+      drift.push(`campo ${field} (${actual.type}) não faz parte do esquema`);
+    }
+  }
+
+  const vector = attributes.get(VECTOR_FIELD);
+  if (vector?.type?.toUpperCase() === 'VECTOR') {
+    const { storage, dimensions, options } = expected;
+    const parameters: [string, string | number | undefined][] = [
+      ['algorithm', options.algorithm],
+      ['data_type', storage.type],
+      ['distance_metric', options.distanceMetric],
+      ['dim', storage.dimensions || dimensions || undefined],
+      ...(options.algorithm === 'HNSW'
+        ? [['m', options.m], ['ef_construction', options.efConstruction]] as [string, number][]
+        : []),
+    ];
+    for (const [parameter, value] of parameters) {
+      if (value !== undefined && vector[parameter] !== undefined && vector[parameter].toUpperCase() !== String(value)) {
+        drift.push(`${VECTOR_FIELD}: ${parameter.toUpperCase()} ${vector[parameter]} no índice, ${value} no esquema`);
+      }
+    }
+  }
+
+  const prefixes: string[] | undefined = info.indexDefinition?.prefixes;
+  if (prefixes && !prefixes.includes(expected.keyPrefix)) {
+    drift.push(`prefixo das chaves: ${prefixes.join(', ')} no índice, ${expected.keyPrefix} no esquema`);
+  }
+  return drift;
+}
+
+// Intervalo fechado de um campo NUMERIC; sem min ou max, o intervalo é aberto daquele lado
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+type PositiveFilterValue = string | number | (string | number)[] | NumericRange;
+
+/**
+ * Condição sobre um campo indexado: um valor (igualdade), uma lista (algum
+ * dos valores), um intervalo (só campos NUMERIC) ou { not: ... } com
+ * qualquer um deles.
+ */
+export type MetadataFilterValue = PositiveFilterValue | { not: PositiveFilterValue };
+
+// Todas as condições precisam valer (E)
+export type MetadataFilter = Record<string, MetadataFilterValue>;
+
+// Mesma normalização de indexedMetadataFields, com o escape da sintaxe de consulta dos campos TAG
+function tagValue(value: string | number): string {
+  return String(value).split(TAG_SEPARATOR).join(' ').replace(/[^A-Za-z0-9_À-￿]/g, '\\$&');
+}
+
+function numericValue(field: string, value: unknown): number {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !isFinite(number)) {
+    throw new Error(`Filtro inválido em ${field}: ${JSON.stringify(value)} não é um número`);
+  }
+  return number;
+}
+
+function isRange(value: unknown): value is NumericRange {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && ('min' in value || 'max' in value);
+}
+
+function fieldCondition(field: string, value: PositiveFilterValue): string {
+  const type = INDEXED_METADATA_FIELDS[field];
+
+  if (isRange(value)) {
+    if (type !== 'NUMERIC') {
+      throw new Error(`Filtro inválido em ${field}: intervalos só valem para campos numéricos`);
+    }
+    const min = value.min === undefined ? '-inf' : numericValue(field, value.min);
+    const max = value.max === undefined ? '+inf' : numericValue(field, value.max);
+    return `@${field}:[${min} ${max}]`;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  if (values.length === 0) {
+    throw new Error(`Filtro inválido em ${field}: lista vazia`);
+  }
+  if (type === 'TAG') {
+    values.forEach(item => {
+      if (typeof item !== 'string' && typeof item !== 'number') {
+        throw new Error(`Filtro inválido em ${field}: ${JSON.stringify(item)}`);
+      }
+    });
+    return `@${field}:{${values.map(tagValue).join(' | ')}}`;
+  }
+  const conditions = values.map(item => {
+    const number = numericValue(field, item);
+    return `@${field}:[${number} ${number}]`;
+  });
+  return conditions.length === 1 ? conditions[0] : `(${conditions.join(' | ')})`;
+}
+
+/**
+ * Converte o filtro de metadados na expressão de pré-filtro da consulta KNN
+ * (ex: { chapter: [3, 4], page: { min: 100, max: 200 } } vira
+ * "@chapter:{3 | 4} @page:[100 200]"). Só os campos de
+ * INDEXED_METADATA_FIELDS podem ser filtrados.
+ */
+export function buildFilterExpression(filter: MetadataFilter): string {
+  const conditions = Object.entries(filter).map(([field, value]) => {
+    if (!(field in INDEXED_METADATA_FIELDS)) {
+      throw new Error(
+        `Não é possível filtrar por ${field}: use um dos campos indexados (${Object.keys(INDEXED_METADATA_FIELDS).join(', ')})`
+      );
+    }
+    if (value === undefined || value === null) {
+      throw new Error(`Filtro inválido em ${field}: valor ausente`);
+    }
+
+    if (typeof value === 'object' && !Array.isArray(value) && 'not' in value) {
+      return `-${fieldCondition(field, value.not)}`;
+    }
+    return fieldCondition(field, value);
+  });
+  return conditions.join(' ');
+}
+
+/**
+ * Avalia o filtro nos metadados de um chunk como o RediSearch avaliaria o
+ * pré-filtro (TAG sem diferenciar maiúsculas; negação aceita chunks sem o
+ * campo), para backends sem RediSearch.
+ */
+export function matchesMetadataFilter(metadata: Record<string, any>, filter: MetadataFilter): boolean {
+  const indexed = indexedMetadataFields(metadata);
+
+  return Object.entries(filter).every(([field, value]) => {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value) && 'not' in value) {
+      return !matchesCondition(field, indexed[field], value.not);
+    }
+    return matchesCondition(field, indexed[field], value as PositiveFilterValue);
+  });
+}
+
+function matchesCondition(field: string, actual: string | number | undefined, value: PositiveFilterValue): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+  if (isRange(value)) {
+    return (value.min === undefined || Number(actual) >= numericValue(field, value.min)) &&
+      (value.max === undefined || Number(actual) <= numericValue(field, value.max));
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  return INDEXED_METADATA_FIELDS[field] === 'TAG'
+    ? values.some(item => String(item).split(TAG_SEPARATOR).join(' ').toLowerCase() === String(actual).toLowerCase())
+    : values.some(item => numericValue(field, item) === actual);
+}
+
+/**
+ * Consulta textual (BM25) sobre o content: cada palavra da pergunta vira um
+ * termo e os termos são combinados com OU, então os chunks com mais termos
+ * (e mais raros) ficam à frente. Identificadores com pontuação
+ * (Object.defineProperty) viram frases, porque o RediSearch separa os
+ * tokens na pontuação ao indexar. Retorna '' se não sobrar nenhum termo.
+ */
+export function buildLexicalQuery(text: string): string {
+  const terms = text
+    .split(/\s+/)
+    .map(textTokens)
+    .filter(tokens => tokens.length > 0)
+    .map(tokens => (tokens.length > 1 ? `"${tokens.join(' ')}"` : tokens[0]));
+
+  return terms.length > 0 ? `@${CONTENT_FIELD}:(${Array.from(new Set(terms)).join(' | ')})` : '';
+}
+
+// Tokens como o RediSearch separa o texto ao indexar: a pontuação separa as palavras
+export function textTokens(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
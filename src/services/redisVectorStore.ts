@@ -1,79 +1,473 @@
-import { RedisVectorStore } from '@langchain/redis';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { RedisAddOptions, RedisVectorStore, RedisVectorStoreFilterType } from '@langchain/redis';
 import { Document } from 'langchain/document';
-import { createClient } from 'redis';
+import { commandOptions, createClient } from 'redis';
 import path from 'path';
+import { ProcessedParent } from '../utils/pdfProcessor';
+import {
+  FULL_PRECISION,
+  VectorStorage,
+  bytesPerVector,
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  formatVectorStorage,
+  isFullPrecision,
+  sameStorage,
+  storedDimensions,
+  supportsTruncation,
+} from '../utils/vectorEncoding';
+import { DEFAULT_HYBRID_SEARCH, HybridSearchConfig, fuseSearchResults } from '../utils/rankFusion';
+import { EmbeddingProvider, EmbeddingProviderType } from './embeddingProvider';
+import type { EmbeddedDocument } from './embeddingService';
+import type { SearchMode, VectorStore, VectorStoreIndexInfo } from './vectorStore';
+import {
+  CONTENT_FIELD,
+  DEFAULT_VECTOR_INDEX,
+  INDEXED_METADATA_FIELDS,
+  METADATA_FIELD,
+  MetadataFilter,
+  VECTOR_FIELD,
+  VectorIndexOptions,
+  buildFilterExpression,
+  buildIndexSchema,
+  buildLexicalQuery,
+  detectSchemaDrift,
+  indexedMetadataFields,
+} from './redisIndexSchema';
+
+// Conexão com o Redis (mesmo formato de config.redis)
+export interface RedisConnectionConfig {
+  url: string;
+  password?: string;
+  // Tempo máximo para abrir o socket, em cada tentativa (padrão: 5s)
+  connectTimeoutMs?: number;
+  // Tentativas na conexão inicial antes de desistir (padrão: 5); depois de conectado, reconecta sem limite
+  maxConnectRetries?: number;
+}
 
 export interface RedisVectorStoreConfig {
-  redisUrl: string;
+  redis: RedisConnectionConfig;
+  indexName: string;
+  keyPrefix: string;
+  // Vetoriza as consultas; deve ser o mesmo provedor usado na ingestão
+  embeddingProvider: EmbeddingProvider;
+  // Prefixo das passagens pai (fora do prefixo do índice, para não serem indexadas sem vetor)
+  parentKeyPrefix?: string;
+  // Cria o provedor das consultas de uma versão do índice com outro modelo (ver activateIndexVersion);
+  // sem ele, só versões do mesmo modelo de embeddingProvider podem ser consultadas
+  providerForVersion?: (version: IndexVersion) => EmbeddingProvider;
+  // Formato dos vetores do índice original (v1) quando ele ainda não existe (padrão: FLOAT32, todas as dimensões)
+  vectorStorage?: VectorStorage;
+  // Algoritmo, distância e parâmetros do campo vetorial (padrão: HNSW COSINE, M 16, EF_CONSTRUCTION 200)
+  vectorIndex?: VectorIndexOptions;
+  // Fusão das buscas textual e vetorial no modo hybrid (padrão: RRF com k 60, pesos iguais, 50 candidatos)
+  hybridSearch?: HybridSearchConfig;
+}
+
+/**
+ * Versão do índice: cada modelo de embedding tem um índice e um prefixo de
+ * chaves próprios. A versão 1 é o índice original (indexName/keyPrefix).
+ */
+export interface IndexVersion {
+  version: number;
   indexName: string;
   keyPrefix: string;
-  embeddingModel: string;
-  apiKey: string;
+  // Provedor e modelo que geraram os vetores (as consultas precisam do mesmo modelo)
+  provider: EmbeddingProviderType;
+  model: string;
+  // Dimensão configurada no provedor (0 = padrão do modelo)
+  dimensions: number;
+  // Formato dos vetores gravados (versões registradas antes dessa opção são FLOAT32)
+  storage: VectorStorage;
+  // building: cópia em andamento (retomada por buildIndexVersion); ready: pode ser ativada
+  status: 'building' | 'ready';
+  createdAt: string;
+}
+
+// Consulta de avaliação; com expectedIds, a comparação também mede recall e MRR
+export interface EvaluationQuery {
+  query: string;
+  expectedIds?: string[];
+}
+
+export interface IndexVersionComparison {
+  baseline: number;
+  candidate: number;
+  k: number;
+  // Fração dos top-k do baseline que também aparecem nos top-k do candidato
+  meanOverlap: number;
+  // Só para as consultas com expectedIds
+  recall?: { baseline: number; candidate: number };
+  mrr?: { baseline: number; candidate: number };
+  queries: { query: string; overlap: number; baselineIds: string[]; candidateIds: string[] }[];
+}
+
+// Recall de um formato de armazenamento em relação aos vetores FLOAT32 completos
+export interface StorageRecallResult {
+  storage: VectorStorage;
+  bytesPerVector: number;
+  // Memória dos vetores de todos os chunks da versão (sem o grafo HNSW)
+  vectorBytes: number;
+  // Fração dos top-k exatos (FLOAT32) que também aparecem nos top-k do formato
+  recall: number;
+  worstQuery: { query: string; recall: number };
+}
+
+export interface StorageRecallReport {
+  version: number;
+  documents: number;
+  dimensions: number;
+  k: number;
+  queries: number;
+  results: StorageRecallResult[];
+}
+
+// Campo do registro de versões com o número da versão ativa
+const ACTIVE_VERSION_FIELD = 'active';
+
+// Espera entre as tentativas de (re)conexão: 200ms, 400ms, 800ms... até este limite
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+export type StoredMetadataValue = string | number | boolean;
+
+// Proveniência do vetor gravado: descreve o embedding, não o texto, e sobrevive a uma troca de metadados
+const EMBEDDING_PROVENANCE_FIELDS = ['embeddingModel', 'embeddingCreatedAt'];
+
+// Metadados novos com a proveniência do embedding já gravado (o vetor não muda numa atualização de metadados)
+export function keepEmbeddingProvenance(
+  metadata: Record<string, StoredMetadataValue>,
+  current: Record<string, any>
+): Record<string, StoredMetadataValue> {
+  const merged = { ...metadata };
+  for (const field of EMBEDDING_PROVENANCE_FIELDS) {
+    if (current[field] !== undefined) {
+      merged[field] = current[field];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Metadados gravados no Redis: só valores escalares. Listas de escalares
+ * (ex: sectionPath) viram texto ("Parte > Capítulo"), objetos são achatados
+ * em chaves com ponto (loc.lines.from) e o vetor nunca entra nos metadados.
+ */
+export function toStoredMetadata(metadata: Record<string, any>, prefix: string = ''): Record<string, StoredMetadataValue> {
+  const stored: Record<string, StoredMetadataValue> = {};
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (key === 'embedding' && !prefix) {
+      continue;
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      stored[prefix + key] = value;
+    } else if (value instanceof Date) {
+      stored[prefix + key] = value.toISOString();
+    } else if (Array.isArray(value)) {
+      // Listas de objetos são descartadas
+      if (value.every(item => ['string', 'number', 'boolean'].includes(typeof item))) {
+        stored[prefix + key] = value.join(' > ');
+      }
+    } else if (value && typeof value === 'object') {
+      Object.assign(stored, toStoredMetadata(value, `${prefix}${key}.`));
+    }
+  }
+  return stored;
+}
+
+/**
+ * RedisVectorStore que grava e consulta os vetores no formato da versão do
+ * índice (ver VectorStorage) e cria o índice com o esquema explícito de
+ * redisIndexSchema: o do LangChain só serializa FLOAT32 e indexa os
+ * metadados como um texto JSON.
+ */
+class EncodedRedisVectorStore extends RedisVectorStore {
+  constructor(
+    embeddings: EmbeddingProvider,
+    private client: any,
+    private storage: VectorStorage,
+    private vectorIndex: VectorIndexOptions,
+    indexName: string,
+    keyPrefix: string
+  ) {
+    super(embeddings, {
+      redisClient: client,
+      indexName,
+      keyPrefix,
+      contentKey: CONTENT_FIELD,
+      vectorKey: VECTOR_FIELD,
+      metadataKey: METADATA_FIELD,
+    });
+  }
+
+  async createIndex(dimensions: number = 1536): Promise<void> {
+    if (await this.checkIndexExists()) {
+      return;
+    }
+
+    await this.client.ft.create(
+      this.indexName,
+      buildIndexSchema(this.storage, dimensions, this.vectorIndex),
+      this.createIndexOptions
+    );
+    console.log(
+      `🆕 Índice ${this.indexName} criado: ${this.vectorIndex.algorithm} ${this.vectorIndex.distanceMetric}, ` +
+      `${dimensions} dimensões ${this.storage.type}`
+    );
+  }
+
+  async addVectors(vectors: number[][], documents: Document[], { keys }: RedisAddOptions = {}): Promise<void> {
+    if (!vectors.length || !vectors[0].length) {
+      throw new Error('Nenhum vetor para gravar');
+    }
+    await this.createIndex(storedDimensions(this.storage, vectors[0].length));
+
+    const targetKeys = keys ?? (await this.reserveSequentialKeys(vectors.length));
+
+    const transaction = this.client.multi();
+    vectors.forEach((vector, index) => {
+      const metadata = documents[index].metadata ?? {};
+      transaction.hSet(targetKeys[index], {
+        [this.vectorKey]: encodeVector(vector, this.storage),
+        [this.contentKey]: documents[index].pageContent,
+        [this.metadataKey]: JSON.stringify(metadata).replace(/-/g, '\\-'),
+        ...indexedMetadataFields(metadata),
+      });
+    });
+    await transaction.exec();
+  }
+
+  /**
+   * Sem chaves, segue a numeração sequencial do LangChain a partir de numDocs,
+   * pulando as chaves já ocupadas: depois de uma remoção, numDocs fica abaixo
+   * da maior chave e a numeração sobrescreveria um documento vivo.
+   */
+  private async reserveSequentialKeys(count: number): Promise<string[]> {
+    const info = await this.client.ft.info(this.indexName);
+    let next = parseInt(info?.numDocs, 10) || 0;
+
+    const reserved: string[] = [];
+    while (reserved.length < count) {
+      const candidates = Array.from({ length: count - reserved.length }, (_, index) => `${this.keyPrefix}${next + index}`);
+      next += candidates.length;
+      const existing: number[] = await Promise.all(candidates.map(key => this.client.exists(key)));
+      reserved.push(...candidates.filter((_, index) => existing[index] === 0));
+    }
+    return reserved;
+  }
+
+  /**
+   * Consulta KNN com o vetor da consulta no formato do índice. O filtro é uma
+   * expressão do RediSearch sobre os campos indexados (ex: "@chapter:{3}");
+   * numa lista, as expressões são combinadas com E.
+   */
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: RedisVectorStoreFilterType
+  ): Promise<[Document, number][]> {
+    const activeFilter = filter ?? this.filter;
+    const expression = Array.isArray(activeFilter) ? activeFilter.join(' ') : activeFilter;
+    const hnsw = this.vectorIndex.algorithm === 'HNSW';
+
+    const results = await this.client.ft.search(
+      this.indexName,
+      `${expression ? `(${expression})` : '*'} => [KNN ${k} @${this.vectorKey} $vector` +
+        `${hnsw ? ' EF_RUNTIME $ef_runtime' : ''} AS vector_score]`,
+      {
+        PARAMS: {
+          vector: encodeVector(query, this.storage),
+          ...(hnsw ? { ef_runtime: this.vectorIndex.efRuntime } : {}),
+        },
+        RETURN: [this.metadataKey, this.contentKey, 'vector_score'],
+        SORTBY: 'vector_score',
+        DIALECT: 2,
+        LIMIT: { from: 0, size: k },
+      }
+    );
+
+    return results.documents
+      .filter((result: any) => result.value?.vector_score)
+      .map((result: any) => [
+        new Document({
+          pageContent: result.value[this.contentKey] ?? '',
+          metadata: JSON.parse((result.value[this.metadataKey] ?? '{}').replace(/\\-/g, '-')),
+        }),
+        Number(result.value.vector_score),
+      ]);
+  }
+
+  // Busca textual com o scorer BM25 (maior é melhor). O FT.SEARCH vai cru porque o node-redis não envia WITHSCORES
+  async lexicalSearchWithScore(query: string, k: number, filter?: string): Promise<[Document, number][]> {
+    const lexicalQuery = buildLexicalQuery(query);
+    if (!lexicalQuery) {
+      return [];
+    }
+
+    // Resposta: [total, chave, score, [campo, valor, ...], chave, score, [...], ...]
+    const reply: any[] = await this.client.sendCommand([
+      'FT.SEARCH', this.indexName, filter ? `${lexicalQuery} (${filter})` : lexicalQuery,
+      'WITHSCORES', 'SCORER', 'BM25',
+      'RETURN', '2', this.metadataKey, this.contentKey,
+      'LIMIT', '0', String(k),
+      'DIALECT', '2',
+    ]);
+
+    const results: [Document, number][] = [];
+    for (let index = 1; index + 2 < reply.length; index += 3) {
+      const fields: Record<string, string> = {};
+      const values: string[] = reply[index + 2] ?? [];
+      for (let field = 0; field + 1 < values.length; field += 2) {
+        fields[String(values[field])] = String(values[field + 1]);
+      }
+      results.push([
+        new Document({
+          pageContent: fields[this.contentKey] ?? '',
+          metadata: JSON.parse((fields[this.metadataKey] ?? '{}').replace(/\\-/g, '-')),
+        }),
+        Number(reply[index + 1]),
+      ]);
+    }
+    return results;
+  }
 }
 
-export class RedisVectorStoreService {
-  private vectorStore!: RedisVectorStore;
+export class RedisVectorStoreService implements VectorStore {
+  private vectorStore?: EncodedRedisVectorStore;
   private redisClient: any;
   private config: RedisVectorStoreConfig;
+  // Versão usada na busca e na gravação; atualizada a cada operação a partir do registro no Redis
+  private active: IndexVersion;
+  private versionProviders = new Map<number, EmbeddingProvider>();
+  private connecting?: Promise<void>;
+  private initializing?: Promise<void>;
+  private vectorIndex: VectorIndexOptions;
+  private hybridSearch: HybridSearchConfig;
+  // Divergências de esquema por índice, verificadas uma vez por processo (ver checkIndexSchema)
+  private schemaDrift = new Map<string, string[]>();
 
+  // O construtor não conecta: use RedisVectorStoreService.create ou ready()
+  // (as operações também conectam no primeiro uso)
   constructor(vectorStoreConfig: RedisVectorStoreConfig) {
     this.config = vectorStoreConfig;
-    this.initializeVectorStore();
+    this.vectorIndex = vectorStoreConfig.vectorIndex ?? DEFAULT_VECTOR_INDEX;
+    this.hybridSearch = vectorStoreConfig.hybridSearch ?? DEFAULT_HYBRID_SEARCH;
+    this.active = this.originalVersion();
   }
 
-  private async initializeVectorStore(): Promise<void> {
-    try {
-      // Criar cliente Redis
-      this.redisClient = createClient({
-        url: this.config.redisUrl,
-      });
-
-      // Conectar ao Redis
-      await this.redisClient.connect();
-      console.log('✅ Conectado ao Redis com sucesso!');
+  // Cria o serviço já conectado ao Redis e com a versão ativa do índice carregada
+  static async create(vectorStoreConfig: RedisVectorStoreConfig): Promise<RedisVectorStoreService> {
+    const service = new RedisVectorStoreService(vectorStoreConfig);
+    await service.ready();
+    return service;
+  }
 
-      // Criar embeddings
-      const embeddings = new OpenAIEmbeddings({
-        openAIApiKey: this.config.apiKey,
-        modelName: this.config.embeddingModel,
-      });
+  // Pode ser chamado mais de uma vez; depois de uma falha, a próxima chamada tenta conectar de novo
+  async ready(): Promise<void> {
+    this.initializing = this.initializing ?? this.initializeVectorStore();
+    try {
+      await this.initializing;
+    } catch (error) {
+      this.initializing = undefined;
+      throw error;
+    }
+  }
 
-      // Criar Redis Vector Store
-      this.vectorStore = new RedisVectorStore(embeddings, {
-        redisClient: this.redisClient,
-        indexName: this.config.indexName,
-        keyPrefix: this.config.keyPrefix,
-      });
+  private async initializeVectorStore(): Promise<void> {
+    try {
+      await this.connect();
 
-      console.log('✅ Redis Vector Store inicializado com sucesso!');
+      // O Redis Vector Store da versão ativa é criado no primeiro uso (ver getStore)
+      await this.syncActiveVersion();
+      const drift = await this.checkIndexSchema();
+      if (drift.length > 0) {
+        // Busca continua funcionando; só a gravação é bloqueada (ver ensureIndexExists)
+        console.warn(`⚠️ ${this.describeSchemaDrift(this.active, drift)}`);
+      }
+      console.log(`✅ Redis Vector Store inicializado com sucesso! (índice ${this.active.indexName}, v${this.active.version})`);
     } catch (error) {
       console.error('❌ Erro ao inicializar Redis Vector Store:', error);
       throw error;
     }
   }
 
-  async storeDocuments(documents: Document[]): Promise<void> {
+  // Uma única conexão para todas as operações, aberta por quem chegar primeiro
+  private async connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.openConnection().catch(error => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+    await this.connecting;
+  }
+
+  private async openConnection(): Promise<void> {
+    const { url, password, connectTimeoutMs = 5000, maxConnectRetries = 5 } = this.config.redis;
+    let connected = false;
+
+    const client = createClient({
+      url,
+      password: password || undefined,
+      socket: {
+        connectTimeout: connectTimeoutMs,
+        // Também vale para a conexão inicial, que desiste depois de maxConnectRetries tentativas
+        reconnectStrategy: (retries: number, cause: Error) => {
+          if (!connected && retries >= maxConnectRetries) {
+            return new Error(`Redis indisponível em ${url} após ${retries + 1} tentativas: ${cause.message}`);
+          }
+          const delay = Math.min(200 * Math.pow(2, retries), MAX_RECONNECT_DELAY_MS);
+          console.warn(`🔄 Reconectando ao Redis em ${delay}ms (tentativa ${retries + 1}): ${cause.message}`);
+          return delay;
+        },
+      },
+    });
+    // Sem listener, um erro de conexão derrubaria o processo; as falhas da conexão inicial chegam pelo connect()
+    client.on('error', (error: Error) => {
+      if (connected) {
+        console.error('❌ Erro na conexão com o Redis:', error.message);
+      }
+    });
+
+    await client.connect();
+    connected = true;
+    this.redisClient = client;
+    console.log('✅ Conectado ao Redis com sucesso!');
+  }
+
+  // Grava os vetores já calculados (sem embedding de novo no RedisVectorStore), um hash por documento
+  async storeDocuments(documents: EmbeddedDocument[]): Promise<void> {
     console.log(`\n💾 INICIANDO ARMAZENAMENTO NO REDIS (VERSÃO OTIMIZADA):`);
     console.log(`   - Documentos para armazenar: ${documents.length}`);
-    console.log(`   - Índice: ${this.config.indexName}`);
-    console.log(`   - Prefixo: ${this.config.keyPrefix}`);
-    console.log(`   - Modelo de embedding: ${this.config.embeddingModel}`);
     
     try {
-      // Verificar se o índice existe, se não, criar
-      await this.ensureIndexExists();
+      // Embeddings de outro modelo no índice ativo deixariam a busca sem sentido
+      const active = await this.syncActiveVersion();
+      const otherModel = documents.find(({ document }) =>
+        document.metadata.embeddingModel && document.metadata.embeddingModel !== active.model
+      );
+      if (otherModel) {
+        throw new Error(
+          `O índice ativo (v${active.version}) usa o modelo ${active.model}, mas os documentos foram ` +
+          `vetorizados com ${otherModel.document.metadata.embeddingModel}: configure EMBEDDING_MODEL=${active.model}`
+        );
+      }
+      console.log(`   - Índice: ${active.indexName} (v${active.version})`);
+      console.log(`   - Prefixo: ${active.keyPrefix}`);
+      console.log(`   - Modelo de embedding: ${active.model}`);
+      
+      // Criar o índice com o esquema explícito ou confirmar que o existente segue o esquema
+      if (documents.length > 0) {
+        await this.ensureIndexExists(documents[0].embedding.length);
+      }
       
       // Log de exemplo do primeiro documento
       if (documents.length > 0) {
-        const firstDoc = documents[0];
+        const { document: firstDoc, embedding } = documents[0];
         console.log(`\n📄 EXEMPLO DO PRIMEIRO DOCUMENTO:`);
         console.log(`   - Conteúdo (100 chars): ${firstDoc.pageContent.substring(0, 100)}...`);
-        console.log(`   - Metadados:`, JSON.stringify(firstDoc.metadata, null, 2));
-        console.log(`   - Tem embedding?: ${firstDoc.metadata.embedding ? 'SIM' : 'NÃO'}`);
-        if (firstDoc.metadata.embedding) {
-          console.log(`   - Dimensão do embedding: ${firstDoc.metadata.embedding.length}`);
-        }
+        console.log(`   - Metadados:`, JSON.stringify(toStoredMetadata(firstDoc.metadata), null, 2));
+        console.log(`   - Dimensão do embedding: ${embedding.length}`);
       }
       
       console.log(`\n⏳ Armazenando documentos em lotes no Redis...`);
@@ -96,14 +490,26 @@ export class RedisVectorStoreService {
         try {
           // Log detalhado de cada documento no lote
           console.log(`   - Documentos no lote:`);
-          batch.forEach((doc, index) => {
+          batch.forEach(({ document: doc }, index) => {
             const chunkIndex = doc.metadata.chunkIndex || 'N/A';
             const source = doc.metadata.source || 'N/A';
             const fileName = path.basename(source);
             console.log(`     ${index + 1}. Chunk ${chunkIndex} - ${fileName}`);
           });
           
-          await this.vectorStore.addDocuments(batch);
+          // Chunks com ID são gravados em chaves estáveis (prefixo + ID), que podem ser
+          // atualizadas ou removidas depois; sem ID, o LangChain gera chaves sequenciais
+          const keys = batch.every(({ document }) => document.metadata.id)
+            ? batch.map(({ document }) => this.getDocumentKey(document.metadata.id))
+            : undefined;
+          await this.getStore().addVectors(
+            batch.map(({ embedding }) => embedding),
+            batch.map(({ document }) => new Document({
+              pageContent: document.pageContent,
+              metadata: toStoredMetadata(document.metadata),
+            })),
+            keys ? { keys } : undefined
+          );
           totalStored += batch.length;
           
           console.log(`   ✅ Lote ${batchNumber} armazenado com sucesso!`);
@@ -122,7 +528,7 @@ export class RedisVectorStoreService {
           
         } catch (error) {
           console.error(`   ❌ Erro no lote ${batchNumber}:`, error);
-          console.error(`   - Documentos que falharam:`, batch.map(doc => doc.metadata.chunkIndex || 'N/A'));
+          console.error(`   - Documentos que falharam:`, batch.map(({ document }) => document.metadata.chunkIndex || 'N/A'));
           throw error;
         }
       }
@@ -151,6 +557,153 @@ export class RedisVectorStoreService {
     }
   }
 
+  getDocumentKey(id: string): string {
+    return `${this.active.keyPrefix}${id}`;
+  }
+
+  async deleteDocuments(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    try {
+      await this.syncActiveVersion();
+      let deleted = 0;
+      const batchSize = 500;
+      for (let i = 0; i < ids.length; i += batchSize) {
+        const keys = ids.slice(i, i + batchSize).map(id => this.getDocumentKey(id));
+        deleted += await this.redisClient.del(keys);
+      }
+
+      console.log(`🗑️ ${deleted} documentos removidos do Redis`);
+      return deleted;
+    } catch (error) {
+      console.error('❌ Erro ao remover documentos:', error);
+      throw error;
+    }
+  }
+
+  // Atualiza só os metadados de um documento já gravado, sem recalcular o embedding.
+  // Retorna false se o documento não existe no Redis.
+  async updateDocumentMetadata(id: string, metadata: Record<string, any>): Promise<boolean> {
+    try {
+      await this.syncActiveVersion();
+      const key = this.getDocumentKey(id);
+      const current: string | null = await this.redisClient.hGet(key, METADATA_FIELD);
+      if (current === null) {
+        return false;
+      }
+
+      // Mesmo formato gravado por EncodedRedisVectorStore, incluindo os campos indexados;
+      // os campos indexados que sumiram dos metadados são apagados
+      const stored = keepEmbeddingProvenance(toStoredMetadata(metadata), JSON.parse(current.replace(/\\-/g, '-')));
+      const indexed = indexedMetadataFields(stored);
+      const removed = Object.keys(INDEXED_METADATA_FIELDS).filter(field => !(field in indexed));
+      const transaction = this.redisClient.multi();
+      transaction.hSet(key, { [METADATA_FIELD]: JSON.stringify(stored).replace(/-/g, '\\-'), ...indexed });
+      if (removed.length > 0) {
+        transaction.hDel(key, removed);
+      }
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      console.error(`❌ Erro ao atualizar metadados de ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async getDocumentById(id: string): Promise<Document | null> {
+    try {
+      await this.syncActiveVersion();
+      const [content, metadata]: (string | null)[] = await this.redisClient.hmGet(
+        this.getDocumentKey(id),
+        [CONTENT_FIELD, METADATA_FIELD]
+      );
+      if (content === null) {
+        return null;
+      }
+      return this.toResultDocument(new Document({
+        pageContent: content,
+        metadata: JSON.parse((metadata ?? '{}').replace(/\\-/g, '-')),
+      }));
+    } catch (error) {
+      console.error(`❌ Erro ao buscar documento ${id}:`, error);
+      throw error;
+    }
+  }
+
+  getParentKey(id: string): string {
+    const prefix = this.config.parentKeyPrefix ?? `${this.config.keyPrefix.replace(/:$/, '')}_parent:`;
+    return `${prefix}${id}`;
+  }
+
+  // Passagens pai são hashes simples (conteúdo + metadados), sem embedding
+  async storeParentPassages(parents: ProcessedParent[]): Promise<void> {
+    if (parents.length === 0) {
+      return;
+    }
+
+    try {
+      await this.connect();
+      const transaction = this.redisClient.multi();
+      for (const parent of parents) {
+        transaction.hSet(this.getParentKey(parent.id), {
+          [CONTENT_FIELD]: parent.content,
+          [METADATA_FIELD]: JSON.stringify(toStoredMetadata({ ...parent.metadata, id: parent.id })),
+        });
+      }
+      await transaction.exec();
+      console.log(`📚 ${parents.length} passagens pai armazenadas`);
+    } catch (error) {
+      console.error('❌ Erro ao armazenar passagens pai:', error);
+      throw error;
+    }
+  }
+
+  async getParentPassages(ids: string[]): Promise<Map<string, Document>> {
+    const passages = new Map<string, Document>();
+    const uniqueIds = Array.from(new Set(ids));
+    if (uniqueIds.length === 0) {
+      return passages;
+    }
+
+    try {
+      await this.connect();
+      const transaction = this.redisClient.multi();
+      uniqueIds.forEach(id => transaction.hGetAll(this.getParentKey(id)));
+      const hashes: Record<string, string>[] = await transaction.exec();
+
+      hashes.forEach((hash, index) => {
+        if (hash && hash[CONTENT_FIELD] !== undefined) {
+          passages.set(uniqueIds[index], new Document({
+            pageContent: hash[CONTENT_FIELD],
+            metadata: JSON.parse(hash[METADATA_FIELD] || '{}'),
+          }));
+        }
+      });
+      return passages;
+    } catch (error) {
+      console.error('❌ Erro ao buscar passagens pai:', error);
+      throw error;
+    }
+  }
+
+  async deleteParentPassages(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    try {
+      await this.connect();
+      const deleted = await this.redisClient.del(ids.map(id => this.getParentKey(id)));
+      console.log(`🗑️ ${deleted} passagens pai removidas do Redis`);
+      return deleted;
+    } catch (error) {
+      console.error('❌ Erro ao remover passagens pai:', error);
+      throw error;
+    }
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -158,12 +711,15 @@ export class RedisVectorStoreService {
   async searchSimilarDocuments(
     query: string, 
     k: number = 5, 
-    scoreThreshold?: number
+    scoreThreshold?: number,
+    filter?: MetadataFilter
   ): Promise<Document[]> {
     console.log(`Buscando documentos similares para: "${query}"`);
     
     try {
-      const results = await this.vectorStore.similaritySearchWithScore(query, k);
+      await this.syncActiveVersion();
+      const results = (await this.getStore().similaritySearchWithScore(query, k, await this.filterExpression(filter)))
+        .map(([doc, score]) => [this.toResultDocument(doc), score] as [Document, number]);
       
       // Filtrar por threshold se especificado
       const filteredResults = scoreThreshold 
@@ -180,14 +736,18 @@ export class RedisVectorStoreService {
     }
   }
 
+  // Com filtro, o RediSearch só considera os chunks que atendem a ele (pré-filtro): os k resultados já vêm filtrados
   async searchSimilarDocumentsWithScore(
     query: string, 
-    k: number = 5
+    k: number = 5,
+    filter?: MetadataFilter
   ): Promise<Array<[Document, number]>> {
     console.log(`Buscando documentos similares com scores para: "${query}"`);
     
     try {
-      const results = await this.vectorStore.similaritySearchWithScore(query, k);
+      await this.syncActiveVersion();
+      const results = (await this.getStore().similaritySearchWithScore(query, k, await this.filterExpression(filter)))
+        .map(([doc, score]) => [this.toResultDocument(doc), score] as [Document, number]);
       
       console.log(`✅ Encontrados ${results.length} documentos similares com scores`);
       return results;
@@ -197,11 +757,50 @@ export class RedisVectorStoreService {
     }
   }
 
+  /**
+   * Busca textual (BM25 sobre o conteúdo dos chunks) ou híbrida (textual e
+   * vetorial, fundidas conforme hybridSearch). Acha identificadores exatos
+   * (WeakMap, Symbol.iterator) que a busca vetorial deixa passar. O score
+   * segue a convenção da busca vetorial, menor é melhor: 1 - score da fusão
+   * (0 = primeiro lugar em todas as listas).
+   */
+  async searchHybrid(
+    query: string,
+    k: number = 5,
+    mode: Exclude<SearchMode, 'vector'> = 'hybrid',
+    filter?: MetadataFilter
+  ): Promise<Array<[Document, number]>> {
+    console.log(`Buscando documentos (${mode === 'hybrid' ? 'híbrida' : 'textual'}) para: "${query}"`);
+
+    try {
+      await this.syncActiveVersion();
+      const store = this.getStore();
+      const expression = await this.filterExpression(filter);
+      const candidates = Math.max(k, this.hybridSearch.candidates);
+
+      const lexical = await store.lexicalSearchWithScore(query, candidates, expression);
+      const vector = mode === 'hybrid' ? await store.similaritySearchWithScore(query, candidates, expression) : undefined;
+      const results = fuseSearchResults(lexical, vector, k, this.hybridSearch)
+        .map(([doc, score]) => [this.toResultDocument(doc), score] as [Document, number]);
+
+      console.log(
+        `✅ Encontrados ${results.length} documentos (textual: ${lexical.length}` +
+        `${vector ? `, vetorial: ${vector.length}, fusão ${this.hybridSearch.method}` : ''})`
+      );
+      return results;
+    } catch (error) {
+      console.error('❌ Erro na busca híbrida:', error);
+      throw error;
+    }
+  }
+
   async deleteIndex(): Promise<void> {
     console.log('Deletando índice do Redis...');
     
     try {
-      await this.vectorStore.delete({ deleteAll: true });
+      await this.syncActiveVersion();
+      await this.getStore().delete({ deleteAll: true });
+      this.schemaDrift.delete(this.active.indexName);
       console.log('✅ Índice deletado com sucesso!');
     } catch (error) {
       console.error('❌ Erro ao deletar índice:', error);
@@ -209,24 +808,32 @@ export class RedisVectorStoreService {
     }
   }
 
-  async getIndexInfo(): Promise<any> {
+  async getIndexInfo(): Promise<VectorStoreIndexInfo | null> {
     try {
-      const info = await this.redisClient.ft.info(this.config.indexName);
-      return info;
+      await this.syncActiveVersion();
+      const info = await this.redisClient.ft.info(this.active.indexName);
+      // O FT.INFO devolve os contadores como texto
+      return { ...info, numDocs: Number(info.numDocs) };
     } catch (error) {
       console.log('Índice ainda não existe ou erro ao obter informações:', error);
       return null;
     }
   }
 
-  private async ensureIndexExists(): Promise<void> {
+  // Gravar num índice com outro esquema misturaria layouts de hash que a busca não distingue
+  private async ensureIndexExists(embeddingDimensions: number): Promise<void> {
     try {
-      const info = await this.getIndexInfo();
-      if (!info) {
-        console.log('Criando novo índice no Redis...');
-        // O índice será criado automaticamente quando adicionarmos o primeiro documento
+      const drift = await this.checkIndexSchema();
+      if (drift.length > 0) {
+        throw new Error(this.describeSchemaDrift(this.active, drift));
+      }
+
+      const store = this.getStore();
+      if (await store.checkIndexExists()) {
+        console.log(`Índice já existe: ${this.active.indexName}`);
       } else {
-        console.log(`Índice já existe: ${this.config.indexName}`);
+        console.log('Criando novo índice no Redis...');
+        await store.createIndex(storedDimensions(this.active.storage, embeddingDimensions));
       }
     } catch (error) {
       console.error('Erro ao verificar/criar índice:', error);
@@ -234,8 +841,64 @@ export class RedisVectorStoreService {
     }
   }
 
+  /**
+   * Compara o índice de uma versão (padrão: a ativa) com o esquema
+   * configurado e retorna as divergências; vazio se o índice segue o
+   * esquema ou ainda não existe. Índices criados pelo LangChain, com os
+   * metadados num campo TEXT, sempre divergem.
+   */
+  async checkIndexSchema(version?: IndexVersion): Promise<string[]> {
+    await this.connect();
+    const target = version ?? this.active;
+    const cached = this.schemaDrift.get(target.indexName);
+    if (cached) {
+      return cached;
+    }
+
+    let info: any;
+    try {
+      info = await this.redisClient.ft.info(target.indexName);
+    } catch (error) {
+      if (error instanceof Error && /unknown index|no such index/i.test(error.message)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const drift = detectSchemaDrift(info, {
+      storage: target.storage,
+      dimensions: target.dimensions,
+      options: this.vectorIndex,
+      keyPrefix: target.keyPrefix,
+    });
+    this.schemaDrift.set(target.indexName, drift);
+    return drift;
+  }
+
+  // Índices fora do esquema podem não ter os campos filtrados, e o RediSearch rejeitaria a consulta
+  private async filterExpression(filter?: MetadataFilter): Promise<string | undefined> {
+    const expression = filter ? buildFilterExpression(filter) : '';
+    if (!expression) {
+      return undefined;
+    }
+
+    const drift = await this.checkIndexSchema();
+    if (drift.length > 0) {
+      throw new Error(`Busca com filtro indisponível. ${this.describeSchemaDrift(this.active, drift)}`);
+    }
+    console.log(`   - Pré-filtro: ${expression}`);
+    return expression;
+  }
+
+  private describeSchemaDrift(version: IndexVersion, drift: string[]): string {
+    return `O índice ${version.indexName} (v${version.version}) não segue o esquema configurado:\n` +
+      drift.map(item => `   - ${item}`).join('\n') +
+      '\n   Recrie o índice numa nova versão (npm run migrate-embeddings -- build) ou remova-o e refaça a ingestão';
+  }
+
   async testConnection(): Promise<boolean> {
     try {
+      await this.connect();
       await this.redisClient.ping();
       console.log('✅ Conexão com Redis funcionando!');
       return true;
@@ -245,10 +908,14 @@ export class RedisVectorStoreService {
     }
   }
 
+  // Cada escrita já vai direto para o Redis
+  async flush(): Promise<void> {}
+
   async closeConnection(): Promise<void> {
     try {
       if (this.redisClient && this.redisClient.isOpen) {
-        await this.redisClient.quit();
+        // Reconectando, o quit() esperaria a conexão voltar
+        await (this.redisClient.isReady ? this.redisClient.quit() : this.redisClient.disconnect());
         console.log('✅ Conexão Redis fechada com sucesso!');
       }
     } catch (error) {
@@ -261,10 +928,525 @@ export class RedisVectorStoreService {
     }
   }
 
-  getVectorStore(): RedisVectorStore {
+  // ==========================================
+  // VERSÕES DO ÍNDICE (MIGRAÇÃO DE MODELO)
+  // ==========================================
+
+  // Versões registradas no Redis; sem registro, só existe o índice original (v1)
+  async listIndexVersions(): Promise<{ versions: IndexVersion[]; active: number }> {
+    await this.connect();
+    const registry: Record<string, string> = await this.redisClient.hGetAll(this.getRegistryKey());
+    const versions = Object.entries(registry)
+      .filter(([field]) => field !== ACTIVE_VERSION_FIELD)
+      .map(([, value]) => ({ storage: FULL_PRECISION, ...JSON.parse(value) }) as IndexVersion)
+      .sort((a, b) => a.version - b.version);
+
+    if (versions.length === 0) {
+      versions.push(this.originalVersion());
+    }
+    return { versions, active: Number(registry[ACTIVE_VERSION_FIELD]) || 1 };
+  }
+
+  async getActiveVersion(): Promise<IndexVersion> {
+    return this.syncActiveVersion();
+  }
+
+  // Alias do RediSearch que aponta para o índice da versão ativa (para consultas externas, ex: RedisInsight)
+  getAliasName(): string {
+    return `${this.config.indexName}_active`;
+  }
+
+  /**
+   * Cria (ou retoma) uma nova versão do índice com o provedor e o formato de
+   * vetores informados (padrão: o formato da versão ativa), vetorizando o
+   * texto dos chunks gravados na versão ativa. A versão ativa continua
+   * atendendo as buscas até activateIndexVersion. Rodar de novo com o mesmo
+   * modelo e formato copia só os chunks que ainda não estão na nova versão.
+   */
+  async buildIndexVersion(
+    provider: EmbeddingProvider,
+    storage?: VectorStorage,
+    batchSize: number = 500
+  ): Promise<IndexVersion> {
+    console.log(`\n🏗️ CRIANDO NOVA VERSÃO DO ÍNDICE COM ${provider.describe()}`);
+
+    try {
+      const source = await this.syncActiveVersion();
+      const targetStorage = storage ?? source.storage;
+      const { versions } = await this.listIndexVersions();
+      // Mesmo modelo e formato: só faz sentido para recriar um índice fora do esquema
+      const sameLayout = this.usesModel(source, provider) && sameStorage(source.storage, targetStorage);
+      if (sameLayout && (await this.checkIndexSchema(source)).length === 0) {
+        throw new Error(
+          `A versão ativa (v${source.version}) já usa o modelo ${provider.model} com vetores ` +
+          `${formatVectorStorage(targetStorage)} e o esquema configurado`
+        );
+      }
+      if (sameLayout) {
+        console.log(`   - Recriando o índice de v${source.version} com o esquema configurado`);
+      }
+      console.log(`   - Vetores: ${formatVectorStorage(targetStorage)}`);
+      if (targetStorage.dimensions > 0 && !supportsTruncation(provider.model)) {
+        console.warn(`⚠️ O modelo ${provider.model} não foi treinado para truncamento: meça o recall antes de ativar a versão`);
+      }
+
+      let target = versions.find(version =>
+        version.version !== source.version && this.usesModel(version, provider) && sameStorage(version.storage, targetStorage)
+      );
+      if (target) {
+        const drift = await this.checkIndexSchema(target);
+        if (drift.length > 0) {
+          throw new Error(this.describeSchemaDrift(target, drift));
+        }
+        console.log(`   - Retomando a versão v${target.version} (${target.indexName})`);
+      } else {
+        const number = Math.max(...versions.map(version => version.version)) + 1;
+        target = {
+          version: number,
+          indexName: `${this.config.indexName}_v${number}`,
+          keyPrefix: `${this.config.keyPrefix.replace(/:$/, '')}_v${number}:`,
+          provider: provider.type,
+          model: provider.model,
+          dimensions: provider.dimensions,
+          storage: targetStorage,
+          status: 'building',
+          createdAt: new Date().toISOString(),
+        };
+        console.log(`   - Nova versão: v${target.version} (${target.indexName}, prefixo ${target.keyPrefix})`);
+      }
+
+      // A versão original também é registrada, para poder voltar a ela depois da troca
+      await this.saveIndexVersion(source);
+      await this.saveIndexVersion(target);
+
+      const store = this.createStore(target, provider);
+      let pending: string[] = [];
+      let copied = 0;
+      let skipped = 0;
+
+      const flush = async () => {
+        const result = await this.copyToVersion(pending, source, target!, store, provider);
+        copied += result.copied;
+        skipped += result.skipped;
+        pending = [];
+        console.log(`   📦 ${copied} chunks copiados, ${skipped} já existentes`);
+      };
+
+      for await (const key of this.redisClient.scanIterator({ MATCH: `${source.keyPrefix}*`, COUNT: 1000 })) {
+        pending.push(key);
+        if (pending.length >= batchSize) {
+          await flush();
+        }
+      }
+      if (pending.length > 0) {
+        await flush();
+      }
+
+      target.status = 'ready';
+      await this.saveIndexVersion(target);
+      console.log(`✅ Versão v${target.version} pronta: ${copied} chunks copiados, ${skipped} já existentes`);
+      return target;
+    } catch (error) {
+      console.error('❌ Erro ao criar nova versão do índice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compara a recuperação de duas versões com as mesmas consultas: a
+   * sobreposição dos top-k sempre e, para consultas com expectedIds, recall@k
+   * e MRR de cada versão.
+   */
+  async compareIndexVersions(
+    baseline: number,
+    candidate: number,
+    queries: EvaluationQuery[],
+    k: number = 5
+  ): Promise<IndexVersionComparison> {
+    try {
+      this.assertQueries(queries);
+      const { versions } = await this.listIndexVersions();
+      const [baselineStore, candidateStore] = [baseline, candidate].map(number => {
+        const version = versions.find(item => item.version === number);
+        if (!version) {
+          throw new Error(`Versão do índice não encontrada: v${number}`);
+        }
+        return this.createStore(version, this.providerFor(version));
+      });
+
+      const comparison: IndexVersionComparison = { baseline, candidate, k, meanOverlap: 0, queries: [] };
+      const labelled = queries.filter(query => query.expectedIds && query.expectedIds.length > 0);
+      const recall = { baseline: 0, candidate: 0 };
+      const mrr = { baseline: 0, candidate: 0 };
+
+      for (const query of queries) {
+        const baselineIds = await this.searchIds(baselineStore, query.query, k);
+        const candidateIds = await this.searchIds(candidateStore, query.query, k);
+        const overlap = baselineIds.length > 0
+          ? baselineIds.filter(id => candidateIds.includes(id)).length / baselineIds.length
+          : 0;
+        comparison.queries.push({ query: query.query, overlap, baselineIds, candidateIds });
+
+        if (query.expectedIds && query.expectedIds.length > 0) {
+          const expected = query.expectedIds;
+          recall.baseline += baselineIds.filter(id => expected.includes(id)).length / expected.length;
+          recall.candidate += candidateIds.filter(id => expected.includes(id)).length / expected.length;
+          mrr.baseline += this.reciprocalRank(baselineIds, expected);
+          mrr.candidate += this.reciprocalRank(candidateIds, expected);
+        }
+      }
+
+      comparison.meanOverlap = queries.length > 0
+        ? comparison.queries.reduce((total, item) => total + item.overlap, 0) / queries.length
+        : 0;
+      if (labelled.length > 0) {
+        comparison.recall = { baseline: recall.baseline / labelled.length, candidate: recall.candidate / labelled.length };
+        comparison.mrr = { baseline: mrr.baseline / labelled.length, candidate: mrr.candidate / labelled.length };
+      }
+      return comparison;
+    } catch (error) {
+      console.error('❌ Erro ao comparar versões do índice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mede a perda de recall de cada formato de armazenamento sem criar
+   * índices: os vetores FLOAT32 da versão ativa são codificados em cada
+   * formato e, para cada consulta, os top-k por busca exata são comparados
+   * com os top-k dos vetores completos. A aproximação do HNSW fica de fora
+   * (afeta todos os formatos); compareIndexVersions mede o índice real.
+   * Depois de ativar um formato reduzido, use a versão FLOAT32 anterior como
+   * baseline.
+   */
+  async measureStorageRecall(
+    queries: EvaluationQuery[],
+    candidates?: VectorStorage[],
+    k: number = 10,
+    baseline?: number
+  ): Promise<StorageRecallReport> {
+    try {
+      this.assertQueries(queries);
+      let source = await this.syncActiveVersion();
+      if (baseline !== undefined) {
+        const { versions } = await this.listIndexVersions();
+        const version = versions.find(item => item.version === baseline);
+        if (!version) {
+          throw new Error(`Versão do índice não encontrada: v${baseline}`);
+        }
+        source = version;
+      }
+      if (!isFullPrecision(source.storage)) {
+        throw new Error(
+          `A versão v${source.version} grava vetores ${formatVectorStorage(source.storage)}: ` +
+          'o recall é medido contra uma versão FLOAT32 com todas as dimensões (--baseline)'
+        );
+      }
+
+      const ids: string[] = [];
+      const vectors: Float32Array[] = [];
+      let pending: string[] = [];
+      const load = async () => {
+        const blobs: (Buffer | null)[] = await Promise.all(
+          pending.map(key => this.redisClient.hGet(commandOptions({ returnBuffers: true }), key, VECTOR_FIELD))
+        );
+        blobs.forEach((blob, index) => {
+          if (blob) {
+            ids.push(pending[index].slice(source.keyPrefix.length));
+            vectors.push(new Float32Array(decodeVector(blob, 'FLOAT32')));
+          }
+        });
+        pending = [];
+      };
+
+      for await (const key of this.redisClient.scanIterator({ MATCH: `${source.keyPrefix}*`, COUNT: 1000 })) {
+        pending.push(key);
+        if (pending.length >= 500) {
+          await load();
+        }
+      }
+      await load();
+      if (vectors.length === 0) {
+        throw new Error(`Nenhum vetor gravado na versão ativa (v${source.version}, prefixo ${source.keyPrefix})`);
+      }
+
+      const dimensions = vectors[0].length;
+      console.log(`📥 ${vectors.length} vetores de ${dimensions} dimensões carregados de ${source.indexName}`);
+
+      const provider = this.providerFor(source);
+      const queryVectors: number[][] = [];
+      for (const query of queries) {
+        queryVectors.push(await provider.embedQuery(query.query));
+      }
+      const exact = queryVectors.map(vector => this.nearest(vectors, vector, k));
+
+      const results: StorageRecallResult[] = [];
+      for (const storage of candidates ?? this.defaultStorageCandidates(source.model, dimensions)) {
+        // Vetores como o índice os veria depois de gravados no formato
+        const encoded = vectors.map(vector =>
+          new Float32Array(decodeVector(encodeVector(Array.from(vector), storage), storage.type))
+        );
+
+        const recalls = queryVectors.map((vector, index) => {
+          const found = this.nearest(encoded, decodeVector(encodeVector(vector, storage), storage.type), k);
+          return exact[index].length > 0
+            ? found.filter(position => exact[index].includes(position)).length / exact[index].length
+            : 1;
+        });
+        const worst = recalls.indexOf(Math.min(...recalls));
+
+        results.push({
+          storage,
+          bytesPerVector: bytesPerVector(storage, dimensions),
+          vectorBytes: bytesPerVector(storage, dimensions) * vectors.length,
+          recall: recalls.reduce((total, recall) => total + recall, 0) / recalls.length,
+          worstQuery: { query: queries[worst].query, recall: recalls[worst] },
+        });
+        console.log(`   📏 ${formatVectorStorage(storage)}: recall@${k} ${results[results.length - 1].recall.toFixed(3)}`);
+      }
+
+      return { version: source.version, documents: ids.length, dimensions, k, queries: queries.length, results };
+    } catch (error) {
+      console.error('❌ Erro ao medir o recall dos formatos de vetor:', error);
+      throw error;
+    }
+  }
+
+  // Troca atômica: o alias e a versão ativa do registro mudam na mesma transação
+  async activateIndexVersion(number: number): Promise<IndexVersion> {
+    try {
+      const { versions } = await this.listIndexVersions();
+      const version = versions.find(item => item.version === number);
+      if (!version) {
+        throw new Error(`Versão do índice não encontrada: v${number}`);
+      }
+      if (version.status !== 'ready') {
+        throw new Error(`A versão v${number} ainda está sendo criada: rode a migração até o fim antes de ativá-la`);
+      }
+      // Falha antes da troca se a versão não puder ser consultada neste processo
+      this.providerFor(version);
+
+      await this.saveIndexVersion(version);
+      await this.redisClient
+        .multi()
+        .addCommand(['FT.ALIASUPDATE', this.getAliasName(), version.indexName])
+        .hSet(this.getRegistryKey(), ACTIVE_VERSION_FIELD, String(version.version))
+        .exec();
+
+      await this.syncActiveVersion();
+      console.log(`🔀 Alias ${this.getAliasName()} aponta para ${version.indexName} (v${version.version}, ${version.model})`);
+      return version;
+    } catch (error) {
+      console.error('❌ Erro ao ativar versão do índice:', error);
+      throw error;
+    }
+  }
+
+  // Remove o índice e os documentos de uma versão inativa (a versão anterior é mantida até aqui)
+  async dropIndexVersion(number: number): Promise<void> {
+    try {
+      const active = await this.syncActiveVersion();
+      if (number === active.version) {
+        throw new Error(`A versão v${number} está ativa: ative outra versão antes de removê-la`);
+      }
+
+      const { versions } = await this.listIndexVersions();
+      const version = versions.find(item => item.version === number);
+      if (!version) {
+        throw new Error(`Versão do índice não encontrada: v${number}`);
+      }
+
+      try {
+        // DD: apaga também os hashes indexados (vetores, conteúdo e metadados da versão)
+        await this.redisClient.ft.dropIndex(version.indexName, { DD: true });
+        this.schemaDrift.delete(version.indexName);
+      } catch (error) {
+        console.warn(`⚠️ Índice ${version.indexName} não encontrado, removendo só o registro:`, error);
+      }
+      await this.redisClient.hDel(this.getRegistryKey(), `v${number}`);
+      console.log(`🗑️ Versão v${number} removida (${version.indexName})`);
+    } catch (error) {
+      console.error('❌ Erro ao remover versão do índice:', error);
+      throw error;
+    }
+  }
+
+  private getRegistryKey(): string {
+    return `${this.config.indexName}:versions`;
+  }
+
+  private async saveIndexVersion(version: IndexVersion): Promise<void> {
+    await this.redisClient.hSet(this.getRegistryKey(), `v${version.version}`, JSON.stringify(version));
+  }
+
+  // Índice criado antes das versões: usa o modelo do provedor configurado
+  private originalVersion(): IndexVersion {
+    return {
+      version: 1,
+      indexName: this.config.indexName,
+      keyPrefix: this.config.keyPrefix,
+      provider: this.config.embeddingProvider.type,
+      model: this.config.embeddingProvider.model,
+      dimensions: this.config.embeddingProvider.dimensions,
+      storage: this.config.vectorStorage ?? FULL_PRECISION,
+      status: 'ready',
+      createdAt: '',
+    };
+  }
+
+  // Uma leitura (HGET) por operação: outro processo pode ter trocado a versão ativa
+  private async syncActiveVersion(): Promise<IndexVersion> {
+    await this.connect();
+    const active = Number(await this.redisClient.hGet(this.getRegistryKey(), ACTIVE_VERSION_FIELD)) || 1;
+    if (active !== this.active.version) {
+      const { versions } = await this.listIndexVersions();
+      const version = versions.find(item => item.version === active);
+      if (!version) {
+        throw new Error(`Versão ativa v${active} não está no registro ${this.getRegistryKey()}`);
+      }
+      console.log(`🔀 Usando a versão v${version.version} do índice (${version.indexName}, ${version.model})`);
+      this.active = version;
+      this.vectorStore = undefined;
+    }
+    return this.active;
+  }
+
+  private getStore(): EncodedRedisVectorStore {
+    if (!this.vectorStore) {
+      this.vectorStore = this.createStore(this.active, this.providerFor(this.active));
+    }
     return this.vectorStore;
   }
 
+  private createStore(version: IndexVersion, provider: EmbeddingProvider): EncodedRedisVectorStore {
+    return new EncodedRedisVectorStore(
+      provider,
+      this.redisClient,
+      version.storage,
+      this.vectorIndex,
+      version.indexName,
+      version.keyPrefix
+    );
+  }
+
+  private usesModel(version: IndexVersion, provider: EmbeddingProvider): boolean {
+    return version.model === provider.model && version.dimensions === provider.dimensions;
+  }
+
+  // Consultas a uma versão precisam do modelo que gerou os vetores dela
+  private providerFor(version: IndexVersion): EmbeddingProvider {
+    if (this.usesModel(version, this.config.embeddingProvider)) {
+      return this.config.embeddingProvider;
+    }
+
+    let provider = this.versionProviders.get(version.version);
+    if (!provider) {
+      if (!this.config.providerForVersion) {
+        throw new Error(
+          `A versão v${version.version} do índice usa o modelo ${version.model}, ` +
+          `mas o provedor configurado usa ${this.config.embeddingProvider.model}: configure EMBEDDING_MODEL=${version.model}`
+        );
+      }
+      provider = this.config.providerForVersion(version);
+      this.versionProviders.set(version.version, provider);
+    }
+    return provider;
+  }
+
+  private async copyToVersion(
+    keys: string[],
+    source: IndexVersion,
+    target: IndexVersion,
+    store: RedisVectorStore,
+    provider: EmbeddingProvider
+  ): Promise<{ copied: number; skipped: number }> {
+    const ids = keys.map(key => key.slice(source.keyPrefix.length));
+    const exists = await Promise.all(ids.map(id => this.redisClient.exists(`${target.keyPrefix}${id}`)));
+    const missing = ids.filter((_, index) => !exists[index]);
+    if (missing.length === 0) {
+      return { copied: 0, skipped: ids.length };
+    }
+
+    const transaction = this.redisClient.multi();
+    missing.forEach(id => transaction.hmGet(`${source.keyPrefix}${id}`, [CONTENT_FIELD, METADATA_FIELD]));
+    const rows: [string | null, string | null][] = await transaction.exec();
+
+    const createdAt = new Date().toISOString();
+    // Documentos gravados antes dos metadados escalares ainda trazem o embedding antigo, descartado aqui
+    const documents = rows.map(([content, metadata]) => new Document({
+      pageContent: content ?? '',
+      metadata: toStoredMetadata({
+        ...JSON.parse((metadata ?? '{}').replace(/\\-/g, '-')),
+        embeddingModel: provider.model,
+        embeddingCreatedAt: createdAt,
+      }),
+    }));
+
+    const vectors = await provider.embedDocuments(documents.map(document => document.pageContent));
+    await store.addVectors(vectors, documents, { keys: missing.map(id => `${target.keyPrefix}${id}`) });
+    return { copied: missing.length, skipped: ids.length - missing.length };
+  }
+
+  // Documentos gravados antes dos metadados escalares têm o vetor inteiro nos metadados
+  private toResultDocument(document: Document): Document {
+    const { embedding, ...metadata } = document.metadata;
+    return embedding === undefined ? document : new Document({ pageContent: document.pageContent, metadata });
+  }
+
+  // Sem consultas não há média nem pior caso para reportar
+  private assertQueries(queries: EvaluationQuery[]): void {
+    if (!Array.isArray(queries) || queries.length === 0) {
+      throw new Error('Informe ao menos uma consulta de avaliação');
+    }
+    const invalid = queries.findIndex(item => !item || typeof item.query !== 'string' || item.query.trim() === '');
+    if (invalid !== -1) {
+      throw new Error(`Consulta de avaliação ${invalid + 1} sem texto em "query"`);
+    }
+  }
+
+  private async searchIds(store: RedisVectorStore, query: string, k: number): Promise<string[]> {
+    const results = await store.similaritySearch(query, k);
+    // Chunks sem ID (índices antigos) são identificados pelo conteúdo
+    return results.map(document => document.metadata.id ?? document.pageContent);
+  }
+
+  // Posições dos k vetores mais próximos da consulta (similaridade de cosseno, busca exata)
+  private nearest(vectors: Float32Array[], query: ArrayLike<number>, k: number): number[] {
+    return vectors
+      .map((vector, position) => ({ position, similarity: cosineSimilarity(vector, query) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, k)
+      .map(item => item.position);
+  }
+
+  // FLOAT16 e INT8 com todas as dimensões e, em modelos que aceitam truncamento, metade e um quarto delas
+  private defaultStorageCandidates(model: string, dimensions: number): VectorStorage[] {
+    const candidates: VectorStorage[] = [
+      { type: 'FLOAT16', dimensions: 0 },
+      { type: 'INT8', dimensions: 0 },
+    ];
+    if (supportsTruncation(model)) {
+      for (const truncated of [Math.floor(dimensions / 2), Math.floor(dimensions / 4)]) {
+        candidates.push(
+          { type: 'FLOAT32', dimensions: truncated },
+          { type: 'FLOAT16', dimensions: truncated },
+          { type: 'INT8', dimensions: truncated }
+        );
+      }
+    }
+    return candidates;
+  }
+
+  private reciprocalRank(ids: string[], expected: string[]): number {
+    const rank = ids.findIndex(id => expected.includes(id));
+    return rank === -1 ? 0 : 1 / (rank + 1);
+  }
+
+  // Só depois de ready() (ou de RedisVectorStoreService.create)
+  getVectorStore(): RedisVectorStore {
+    return this.getStore();
+  }
+
   getRedisClient(): any {
     return this.redisClient;
   }
@@ -1,28 +1,45 @@
 import { Document } from 'langchain/document';
-import { RedisVectorStoreService } from './redisVectorStore';
+import path from 'path';
+import { SearchMode, VectorStore } from './vectorStore';
+import { MetadataFilter } from './redisIndexSchema';
 import { EmbeddingService } from './embeddingService';
+import { EmbeddingCacheStats } from './embeddingCache';
 import { PromptService, ContextualResponse } from './promptService';
 
 export interface SearchResult {
   document: Document;
   score: number;
   relevance: 'high' | 'medium' | 'low';
+  // Com expandToParent: os chunks que casaram com a busca dentro da passagem devolvida
+  matchedChunks?: Document[];
 }
 
 export interface SearchOptions {
   maxResults?: number;
   scoreThreshold?: number;
   includeScore?: boolean;
-  filterByMetadata?: Record<string, any>;
+  // Aplicado no próprio vector store, antes do KNN (ver MetadataFilter): só campos indexados
+  filterByMetadata?: MetadataFilter;
+  // Padrão: vector. Em lexical e hybrid, o score é 1 - score da fusão (ver searchHybrid)
+  mode?: SearchMode;
+  // Devolve a passagem pai (ex: a subseção inteira) no lugar de cada chunk encontrado
+  expandToParent?: boolean;
 }
 
+// Com expansão, mais chunks são buscados porque vários podem pertencer à mesma passagem
+const PARENT_SEARCH_FACTOR = 3;
+
+// Passagens pai são bem maiores que os chunks: o contexto do LLM cresce junto
+const CONTEXT_LENGTH = 4000;
+const PARENT_CONTEXT_LENGTH = 12000;
+
 export class SemanticSearchService {
-  private vectorStoreService: RedisVectorStoreService;
+  private vectorStoreService: VectorStore;
   private embeddingService: EmbeddingService;
   private promptService: PromptService;
 
   constructor(
-    vectorStoreService: RedisVectorStoreService,
+    vectorStoreService: VectorStore,
     embeddingService: EmbeddingService,
     promptService?: PromptService
   ) {
@@ -48,23 +65,31 @@ export class SemanticSearchService {
         maxResults = 5,
         scoreThreshold = 0.8,
         includeScore = true,
-        filterByMetadata
+        filterByMetadata,
+        expandToParent = false,
+        mode = 'vector'
       } = options;
+      const k = expandToParent ? maxResults * PARENT_SEARCH_FACTOR : maxResults;
 
       console.log(`\n📊 CONFIGURAÇÃO DA BUSCA:`);
+      console.log(`   - Modo: ${mode}`);
       console.log(`   - Max resultados: ${maxResults}`);
       console.log(`   - Score threshold: ${scoreThreshold}`);
       console.log(`   - Incluir scores: ${includeScore}`);
+      console.log(`   - Expandir para passagem pai: ${expandToParent}`);
+      console.log(`   - Filtro de metadados: ${filterByMetadata ? JSON.stringify(filterByMetadata) : 'nenhum'}`);
 
       // Buscar documentos similares
       let results: Array<[Document, number]> | Document[];
       
       console.log(`\n🔎 EXECUTANDO RETRIEVAL NO REDIS...`);
       
-      if (includeScore) {
-        results = await this.vectorStoreService.searchSimilarDocumentsWithScore(query, maxResults);
+      if (mode !== 'vector') {
+        results = await this.vectorStoreService.searchHybrid(query, k, mode, filterByMetadata);
+      } else if (includeScore) {
+        results = await this.vectorStoreService.searchSimilarDocumentsWithScore(query, k, filterByMetadata);
       } else {
-        const docs = await this.vectorStoreService.searchSimilarDocuments(query, maxResults);
+        const docs = await this.vectorStoreService.searchSimilarDocuments(query, k, undefined, filterByMetadata);
         results = docs.map(doc => [doc, 0] as [Document, number]);
       }
 
@@ -97,9 +122,8 @@ export class SemanticSearchService {
       const filteredResults = searchResults.filter(result => result.score <= scoreThreshold);
       console.log(`   - Após filtro de threshold (${scoreThreshold}): ${filteredResults.length} resultados`);
 
-      // Aplicar filtros de metadados se especificado
-      const finalResults = filterByMetadata 
-        ? this.filterByMetadata(filteredResults, filterByMetadata)
+      const finalResults = expandToParent
+        ? (await this.expandToParents(filteredResults)).slice(0, maxResults)
         : filteredResults;
 
       console.log(`\n✅ BUSCA CONCLUÍDA:`);
@@ -154,59 +178,88 @@ export class SemanticSearchService {
 
   async getDocumentById(documentId: string): Promise<Document | null> {
     try {
-      // Implementar busca por ID específico se necessário
       console.log(`Buscando documento por ID: ${documentId}`);
-      
-      // Por enquanto, fazer uma busca ampla e filtrar por metadados
-      const results = await this.search(documentId, {
-        maxResults: 100,
-        includeScore: false,
-      });
-
-      const document = results.find(result => 
-        result.document.metadata.id === documentId ||
-        result.document.metadata.fileName?.includes(documentId)
-      );
-
-      return document?.document || null;
+      return await this.vectorStoreService.getDocumentById(documentId);
     } catch (error) {
       console.error('❌ Erro ao buscar documento por ID:', error);
       return null;
     }
   }
 
+  // Troca cada chunk pela passagem pai de onde veio. Chunks da mesma passagem viram um único
+  // resultado, com o score do melhor deles; chunks sem passagem pai são mantidos como estão.
+  private async expandToParents(results: SearchResult[]): Promise<SearchResult[]> {
+    const parentIds = results
+      .map(result => result.document.metadata.parentId)
+      .filter((id): id is string => typeof id === 'string');
+    if (parentIds.length === 0) {
+      return results;
+    }
+
+    const parents = await this.vectorStoreService.getParentPassages(parentIds);
+    const expandedByParent = new Map<string, SearchResult>();
+    const expanded: SearchResult[] = [];
+
+    for (const result of results) {
+      const parentId = result.document.metadata.parentId;
+      const parent = parentId ? parents.get(parentId) : undefined;
+      if (!parent) {
+        expanded.push(result);
+        continue;
+      }
+
+      const existing = expandedByParent.get(parentId);
+      if (existing) {
+        existing.matchedChunks!.push(result.document);
+        continue;
+      }
+
+      const parentResult: SearchResult = {
+        document: new Document({
+          pageContent: parent.pageContent,
+          metadata: {
+            ...parent.metadata,
+            fileName: path.basename(parent.metadata.source ?? ''),
+            parentId,
+            isParentPassage: true,
+          },
+        }),
+        score: result.score,
+        relevance: result.relevance,
+        matchedChunks: [result.document],
+      };
+      expandedByParent.set(parentId, parentResult);
+      expanded.push(parentResult);
+    }
+
+    console.log(`   - Expandidos para ${expandedByParent.size} passagens pai (${results.length} chunks)`);
+    return expanded;
+  }
+
   private calculateRelevance(score: number): 'high' | 'medium' | 'low' {
     if (score <= 0.3) return 'high';
     if (score <= 0.6) return 'medium';
     return 'low';
   }
 
-  private filterByMetadata(
-    results: SearchResult[], 
-    filter: Record<string, any>
-  ): SearchResult[] {
-    return results.filter(result => {
-      const metadata = result.document.metadata;
-      
-      return Object.entries(filter).every(([key, value]) => {
-        return metadata[key] === value;
-      });
-    });
-  }
-
   async getSearchStatistics(): Promise<{
     totalDocuments: number;
     indexName: string;
+    indexVersion?: number;
     embeddingModel: string;
+    embeddingCache?: EmbeddingCacheStats;
   }> {
     try {
       const indexInfo = await this.vectorStoreService.getIndexInfo();
-      const embeddingModel = this.embeddingService.getEmbeddingModel();
+      // Modelo da versão ativa do índice (o que vetoriza as consultas), não o da ingestão
+      const activeVersion = await this.vectorStoreService.getActiveVersion();
       
       return {
         totalDocuments: indexInfo?.numDocs || 0,
         indexName: indexInfo?.indexName || 'unknown',
-        embeddingModel,
+        indexVersion: activeVersion.version,
+        embeddingModel: activeVersion.model,
+        embeddingCache: this.embeddingService.getCacheStats(),
       };
     } catch (error) {
       console.error('❌ Erro ao obter estatísticas:', error);
@@ -251,12 +304,14 @@ export class SemanticSearchService {
     console.log(`   - Opções:`, JSON.stringify(options, null, 2));
     
     try {
-      // Buscar documentos relevantes
+      // Buscar documentos relevantes (por padrão, as passagens pai dos chunks encontrados)
+      const expandToParent = options.expandToParent ?? true;
       const searchResults = await this.search(question, {
         maxResults: options.maxResults || 5,
         scoreThreshold: options.scoreThreshold || 0.8,
         includeScore: true,
-        ...options
+        ...options,
+        expandToParent,
       });
 
       console.log(`   - Documentos encontrados: ${searchResults.length}`);
@@ -269,7 +324,7 @@ export class SemanticSearchService {
         question,
         relevantDocuments,
         {
-          maxContextLength: 4000,
+          maxContextLength: expandToParent ? PARENT_CONTEXT_LENGTH : CONTEXT_LENGTH,
           includeMetadata: true
         }
       );
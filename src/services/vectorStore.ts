@@ -0,0 +1,77 @@
+import { Document } from 'langchain/document';
+import { ProcessedParent } from '../utils/pdfProcessor';
+import type { EmbeddedDocument } from './embeddingService';
+import { InMemoryVectorStoreService } from './inMemoryVectorStore';
+import type { MetadataFilter } from './redisIndexSchema';
+import { RedisVectorStoreConfig, RedisVectorStoreService } from './redisVectorStore';
+
+// vector: KNN sobre os embeddings; lexical: BM25 sobre o texto dos chunks; hybrid: as duas, fundidas
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+// redis: Redis Stack (RediSearch); memory: no próprio processo, para desenvolvimento sem containers
+export type VectorStoreBackend = 'redis' | 'memory';
+
+// Resumo do índice: cada backend pode acrescentar detalhes próprios (o Redis devolve o FT.INFO inteiro)
+export interface VectorStoreIndexInfo {
+  indexName: string;
+  numDocs: number;
+  [detail: string]: any;
+}
+
+/**
+ * Armazenamento dos chunks vetorizados, usado pela ingestão, pela busca e
+ * pela API. Scores de busca são distâncias (menor é melhor) e os filtros
+ * só valem para os campos indexados (ver MetadataFilter).
+ */
+export interface VectorStore {
+  // Conecta (ou carrega o snapshot); as operações também chamam no primeiro uso
+  ready(): Promise<void>;
+  storeDocuments(documents: EmbeddedDocument[]): Promise<void>;
+  deleteDocuments(ids: string[]): Promise<number>;
+  // false se o documento não existe
+  updateDocumentMetadata(id: string, metadata: Record<string, any>): Promise<boolean>;
+  getDocumentById(id: string): Promise<Document | null>;
+  searchSimilarDocuments(query: string, k?: number, scoreThreshold?: number, filter?: MetadataFilter): Promise<Document[]>;
+  searchSimilarDocumentsWithScore(query: string, k?: number, filter?: MetadataFilter): Promise<Array<[Document, number]>>;
+  searchHybrid(
+    query: string,
+    k?: number,
+    mode?: Exclude<SearchMode, 'vector'>,
+    filter?: MetadataFilter
+  ): Promise<Array<[Document, number]>>;
+  storeParentPassages(parents: ProcessedParent[]): Promise<void>;
+  getParentPassages(ids: string[]): Promise<Map<string, Document>>;
+  deleteParentPassages(ids: string[]): Promise<number>;
+  // null se o índice ainda não existe
+  getIndexInfo(): Promise<VectorStoreIndexInfo | null>;
+  // Versão do índice e modelo que vetoriza as consultas
+  getActiveVersion(): Promise<{ version: number; model: string }>;
+  testConnection(): Promise<boolean>;
+  // Persiste as alterações que ainda estão só no processo; chame antes de gravar checkpoints (manifestos, jobs)
+  flush(): Promise<void>;
+  // Também chama flush()
+  closeConnection(): Promise<void>;
+}
+
+export interface VectorStoreConfig extends RedisVectorStoreConfig {
+  backend: VectorStoreBackend;
+  // Só no backend memory: arquivo JSON carregado no ready() e regravado no flush()
+  snapshotPath?: string;
+}
+
+// Como o construtor de cada backend, não conecta: chame ready() (ou deixe a primeira operação conectar)
+export function createVectorStore(vectorStoreConfig: VectorStoreConfig): VectorStore {
+  switch (vectorStoreConfig.backend) {
+    case 'redis':
+      return new RedisVectorStoreService(vectorStoreConfig);
+    case 'memory':
+      return new InMemoryVectorStoreService({
+        indexName: vectorStoreConfig.indexName,
+        embeddingProvider: vectorStoreConfig.embeddingProvider,
+        snapshotPath: vectorStoreConfig.snapshotPath,
+        hybridSearch: vectorStoreConfig.hybridSearch,
+      });
+    default:
+      throw new Error(`VECTOR_STORE_BACKEND inválido: ${vectorStoreConfig.backend} (use redis ou memory)`);
+  }
+}
@@ -2,9 +2,10 @@ import { config, validateConfig } from './config/config';
 import { PDFProcessor } from './utils/pdfProcessor';
 import { LangChainService } from './services/langchainService';
 import { EmbeddingService } from './services/embeddingService';
-import { RedisVectorStoreService } from './services/redisVectorStore';
+import { createEmbeddingProvider } from './services/embeddingProvider';
+import { createEmbeddingCache } from './services/embeddingCache';
+import { createVectorStore } from './services/vectorStore';
 import { SemanticSearchService } from './services/semanticSearchService';
-import path from 'path';
 
 async function testPipeline() {
   try {
@@ -12,25 +13,30 @@ async function testPipeline() {
     
     // Validar configurações
     validateConfig();
+    const embeddingProvider = createEmbeddingProvider(config.embedding, createEmbeddingCache(config.embeddingCache));
     
     // ==========================================
     // ETAPA 1: PROCESSAR APENAS 1 CHUNK
     // ==========================================
-    console.log('\n📄 ETAPA 1: Processando PDF (apenas 1 chunk)...');
-    const pdfPath = path.join(config.paths.tmpDir, 'JavaScript The Definitive Guide (David Flanagan).pdf');
-    const pdfProcessor = new PDFProcessor(config.paths.chunksDir);
+    console.log('\n📄 ETAPA 1: Processando documento (apenas 1 chunk)...');
+    const pdfProcessor = new PDFProcessor(config.paths.chunksDir, config.embedding.model);
+    
+    // Primeiro documento suportado do argumento (arquivo ou diretório) ou do diretório de fontes
+    const [sourcePath] = pdfProcessor.getExtractorRegistry().resolveSources([process.argv[2] || config.paths.sourcesDir]);
+    if (!sourcePath) {
+      throw new Error(`Nenhum documento suportado encontrado em ${process.argv[2] || config.paths.sourcesDir}`);
+    }
     
     // Processar apenas 1 chunk para teste
-    const processedChunks = await pdfProcessor.processPDFToChunks(
-      pdfPath,
-      600, // chunk size
-      100, // overlap
-      'json'
+    const chunkingSummary = await pdfProcessor.processDocumentToChunkFiles(
+      sourcePath,
+      { chunkSize: 600, overlap: 100 },
+      config.chunk.format
     );
     
     // Pegar apenas o primeiro chunk
-    const firstChunk = processedChunks[0];
-    console.log(`✅ PDF processado: ${processedChunks.length} chunks criados`);
+    const firstChunk = chunkingSummary.preview[0];
+    console.log(`✅ Documento processado: ${chunkingSummary.totalChunks} chunks criados`);
     console.log(`📄 Usando apenas o primeiro chunk para teste`);
     
     // ==========================================
@@ -49,6 +55,10 @@ async function testPipeline() {
       metadata: {
         source: firstChunk.metadata.source,
         page: firstChunk.metadata.page,
+        pageEnd: firstChunk.metadata.pageEnd,
+        chapter: firstChunk.metadata.chapter,
+        chapterTitle: firstChunk.metadata.chapterTitle,
+        sectionPath: firstChunk.metadata.sectionPath,
         chunkIndex: firstChunk.metadata.chunkIndex,
         totalChunks: firstChunk.metadata.totalChunks,
         id: firstChunk.id
@@ -65,14 +75,13 @@ async function testPipeline() {
     // ==========================================
     console.log('\n🧠 ETAPA 3: Criando embedding...');
     const embeddingService = new EmbeddingService({
-      apiKey: config.openai.apiKey,
-      model: config.openai.embeddingModel,
+      provider: embeddingProvider,
     });
     
     // Testar conexão
     const embeddingHealth = await embeddingService.testConnection();
     if (!embeddingHealth) {
-      throw new Error('Falha na conexão com OpenAI Embeddings');
+      throw new Error('Falha na conexão com o provedor de embeddings');
     }
     
     // Criar embedding para o documento
@@ -83,13 +92,18 @@ async function testPipeline() {
     // ETAPA 4: SALVAR NO REDIS
     // ==========================================
     console.log('\n💾 ETAPA 4: Salvando no Redis...');
-    const vectorStoreService = new RedisVectorStoreService({
-      redisUrl: config.redis.url,
+    const vectorStoreService = createVectorStore({
+      backend: config.vectorStore.backend,
+      snapshotPath: config.vectorStore.snapshotPath,
+      redis: config.redis,
       indexName: config.vectorStore.indexName,
       keyPrefix: config.vectorStore.keyPrefix,
-      embeddingModel: config.openai.embeddingModel,
-      apiKey: config.openai.apiKey,
+      vectorStorage: config.vectorStore.storage,
+      vectorIndex: config.vectorStore.index,
+      hybridSearch: config.search.hybrid,
+      embeddingProvider,
     });
+    await vectorStoreService.ready();
     
     // Testar conexão Redis
     const redisHealth = await vectorStoreService.testConnection();
@@ -125,6 +139,7 @@ async function testPipeline() {
     
     // Fechar conexões
     await vectorStoreService.closeConnection();
+    await embeddingService.closeConnection();
     
     console.log('\n🎉 TESTE CONCLUÍDO COM SUCESSO!');
     
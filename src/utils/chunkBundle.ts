@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createInterface } from 'readline';
+import type { ProcessedChunk, ProcessedParent } from './pdfProcessor';
+import type { TextCleanerOptions } from './textCleaner';
+import type { ChunkSizeUnit } from './tokenizer';
+import type { DocumentFormat } from './extractors/types';
+
+export const CHUNK_BUNDLE_EXTENSION = '.chunks.jsonl';
+export const CHUNK_BUNDLE_VERSION = 1;
+
+export interface ChunkBundleHeader {
+  type: 'header';
+  version: number;
+  source: string;
+  format?: DocumentFormat;
+  // SHA-256 do arquivo de origem, para detectar reprocessamentos de fontes alteradas
+  checksum: string;
+  createdAt: string;
+  chunker: {
+    chunkSize: number;
+    overlap: number;
+    maxChunks?: number;
+    // Unidade de chunkSize/overlap e encoding do tokenizador usado em tokenCount
+    unit?: ChunkSizeUnit;
+    tokenizer?: string;
+    cleanup?: TextCleanerOptions;
+    // Tamanho máximo das passagens pai (ausente = bundle sem passagens pai)
+    parentSize?: number;
+  };
+  totalChunks: number;
+}
+
+interface ChunkRecord extends ProcessedChunk {
+  type: 'chunk';
+}
+
+interface ParentRecord extends ProcessedParent {
+  type: 'parent';
+}
+
+export function getChunkBundlePath(chunksDir: string, sourceFileName: string): string {
+  const baseFileName = path.basename(sourceFileName, path.extname(sourceFileName));
+  return path.join(chunksDir, `${baseFileName}${CHUNK_BUNDLE_EXTENSION}`);
+}
+
+/**
+ * O bundle, os IDs dos chunks e o manifesto da ingestão usam só o nome do
+ * arquivo: dois documentos com o mesmo nome em diretórios diferentes
+ * sobrescreveriam um ao outro. Um bundle de outro caminho só é aceito se
+ * aquele arquivo não existe mais (o documento foi movido).
+ */
+export async function assertBundleSource(bundlePath: string, sourceFileName: string): Promise<void> {
+  if (!fs.existsSync(bundlePath)) {
+    return;
+  }
+
+  const { source } = await readChunkBundleHeader(bundlePath);
+  if (path.resolve(source) !== path.resolve(sourceFileName) && fs.existsSync(source)) {
+    throw new Error(
+      `${sourceFileName} tem o mesmo nome de ${source}, já processado em ${bundlePath}: ` +
+      'renomeie um dos arquivos (os chunks e o manifesto da ingestão seriam compartilhados)'
+    );
+  }
+}
+
+export function isChunkBundle(filePath: string): boolean {
+  return filePath.endsWith(CHUNK_BUNDLE_EXTENSION);
+}
+
+export function computeFileChecksum(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', data => hash.update(data))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Escreve um bundle JSONL: a primeira linha é o cabeçalho e cada linha
+ * seguinte é um chunk, na ordem em que foi gerado. Passagens pai, quando
+ * existem, são escritas antes do primeiro chunk filho.
+ */
+export class ChunkBundleWriter {
+  private fd: number;
+  private written = 0;
+
+  constructor(private bundlePath: string, private header: Omit<ChunkBundleHeader, 'type' | 'version'>) {
+    // Escreve em um arquivo temporário e renomeia no final, para nunca deixar um bundle pela metade
+    this.fd = fs.openSync(this.tempPath(), 'w');
+    this.writeLine({ type: 'header', version: CHUNK_BUNDLE_VERSION, ...header });
+  }
+
+  write(chunk: ProcessedChunk): void {
+    const record: ChunkRecord = { type: 'chunk', ...chunk };
+    this.writeLine(record);
+    this.written++;
+  }
+
+  writeParent(parent: ProcessedParent): void {
+    const record: ParentRecord = { type: 'parent', ...parent };
+    this.writeLine(record);
+  }
+
+  close(): string {
+    fs.closeSync(this.fd);
+
+    if (this.written !== this.header.totalChunks) {
+      fs.unlinkSync(this.tempPath());
+      throw new Error(
+        `Bundle incompleto: cabeçalho declara ${this.header.totalChunks} chunks, mas ${this.written} foram escritos`
+      );
+    }
+
+    fs.renameSync(this.tempPath(), this.bundlePath);
+    return this.bundlePath;
+  }
+
+  private writeLine(record: object): void {
+    fs.writeSync(this.fd, JSON.stringify(record) + '\n');
+  }
+
+  private tempPath(): string {
+    return `${this.bundlePath}.tmp`;
+  }
+}
+
+async function* readBundleRecords(bundlePath: string): AsyncGenerator<any> {
+  const input = fs.createReadStream(bundlePath, { encoding: 'utf-8' });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        yield JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Linha ${lineNumber} inválida no bundle ${bundlePath}: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    // Leituras interrompidas (ex: só o cabeçalho) não devem manter o arquivo aberto
+    lines.close();
+    input.destroy();
+  }
+}
+
+export async function readChunkBundleHeader(bundlePath: string): Promise<ChunkBundleHeader> {
+  for await (const record of readBundleRecords(bundlePath)) {
+    if (record.type !== 'header') {
+      break;
+    }
+    return record as ChunkBundleHeader;
+  }
+
+  throw new Error(`Bundle sem cabeçalho: ${bundlePath}`);
+}
+
+// Lê os chunks do bundle em streaming, na ordem dos chunks
+export async function* readChunkBundle(bundlePath: string): AsyncGenerator<ProcessedChunk> {
+  let headerSeen = false;
+
+  for await (const record of readBundleRecords(bundlePath)) {
+    if (!headerSeen) {
+      if (record.type !== 'header') {
+        throw new Error(`Bundle sem cabeçalho: ${bundlePath}`);
+      }
+      headerSeen = true;
+      continue;
+    }
+
+    if (record.type === 'chunk') {
+      const { type, ...chunk } = record as ChunkRecord;
+      yield chunk;
+    }
+  }
+}
+
+// Lê as passagens pai do bundle em streaming (bundles sem passagens pai não têm nenhuma)
+export async function* readParentPassages(bundlePath: string): AsyncGenerator<ProcessedParent> {
+  for await (const record of readBundleRecords(bundlePath)) {
+    if (record.type === 'parent') {
+      const { type, ...parent } = record as ParentRecord;
+      yield parent;
+    }
+  }
+}
+
+// Ordena arquivos "<fonte>_chunk_<n>.json" pelo número do chunk (e não em ordem lexical)
+export function sortChunkFiles(files: string[]): string[] {
+  const chunkNumber = (file: string) => {
+    const match = file.match(/_chunk_(\d+)\.\w+$/);
+    return match ? parseInt(match[1]) : Number.MAX_SAFE_INTEGER;
+  };
+
+  return [...files].sort((a, b) => {
+    const prefixA = a.replace(/_chunk_\d+\.\w+$/, '');
+    const prefixB = b.replace(/_chunk_\d+\.\w+$/, '');
+    return prefixA.localeCompare(prefixB) || chunkNumber(a) - chunkNumber(b);
+  });
+}
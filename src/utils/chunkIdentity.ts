@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import path from 'path';
+
+// Caracteres do hash usados no ID (64 bits: colisões são improváveis mesmo em bibliotecas grandes)
+const ID_HASH_LENGTH = 16;
+
+export function contentHash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Gera IDs estáveis a partir da fonte e do conteúdo do chunk: mudar o tamanho
+ * dos chunks ou corrigir uma página não renumera os chunks que não mudaram.
+ * Conteúdos repetidos no mesmo documento recebem um sufixo de ocorrência.
+ */
+export class ChunkIdGenerator {
+  private prefix: string;
+  private occurrences = new Map<string, number>();
+
+  // "kind" separa IDs de tipos diferentes com o mesmo conteúdo (ex: 'parent')
+  constructor(sourceFileName: string, private kind?: string) {
+    const baseFileName = path.basename(sourceFileName, path.extname(sourceFileName));
+    this.prefix = kind ? `${baseFileName}_${kind}` : baseFileName;
+  }
+
+  next(content: string): string {
+    const hash = contentHash(`${this.prefix}\u0000${content}`).slice(0, ID_HASH_LENGTH);
+    const occurrence = (this.occurrences.get(hash) ?? 0) + 1;
+    this.occurrences.set(hash, occurrence);
+
+    const id = `${this.prefix}_${hash}`;
+    return occurrence > 1 ? `${id}_${occurrence}` : id;
+  }
+}
+
+/**
+ * Impressão digital dos metadados, usada para detectar chunks que mudaram só
+ * de estrutura (página, capítulo, seção). A posição no documento (chunkIndex,
+ * totalChunks) fica de fora: um chunk a mais desloca todos os seguintes, e
+ * regravar o livro inteiro por isso anularia a ingestão incremental. Nos
+ * chunks inalterados, esses campos ficam com os valores da primeira gravação.
+ */
+export function metadataFingerprint(metadata: Record<string, any>): string {
+  const { embedding, embeddingCreatedAt, processedAt, chunkIndex, totalChunks, ...stable } = metadata;
+  const sorted = Object.keys(stable).sort().reduce<Record<string, any>>((result, key) => {
+    result[key] = stable[key];
+    return result;
+  }, {});
+  return contentHash(JSON.stringify(sorted)).slice(0, ID_HASH_LENGTH);
+}
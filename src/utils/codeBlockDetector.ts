@@ -0,0 +1,154 @@
+export type CodeLanguage = 'javascript' | 'html' | 'css' | 'json' | 'shell' | 'unknown';
+
+export interface CodeBlock {
+  start: number;
+  end: number;
+  language: CodeLanguage;
+}
+
+interface LineInfo {
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+}
+
+// Pontuação mínima para uma linha ser considerada código
+const CODE_LINE_THRESHOLD = 2;
+// Um listing precisa de pelo menos esta quantidade de linhas de código
+const MIN_CODE_LINES = 2;
+// Linhas em branco/fracas toleradas dentro de um listing
+const MAX_GAP_LINES = 2;
+
+const JS_KEYWORD_START = /^(?:let|const|var|function\*?|class|if|else|for|while|do|switch|case|return|import|export|async|await|try|catch|finally|throw|new|yield|break|continue)\b/;
+const COMMENT_START = /^(?:\/\/|\/\*|\*\/|\* )/;
+const CODE_LINE_END = /(?:[;{}[(,]|=>|\)\s*\{?|\*\/)$/;
+const CODE_TOKENS = /(?:=>|===|!==|\+\+|--|&&|\|\||console\.\w+|\w+\([^)]*\)|\w+\.\w+\(|=\s*[[{'"`\d])/;
+const HTML_TAG = /<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>/;
+const SHELL_PROMPT = /^(?:\$|>|%)\s+\S/;
+
+export class CodeBlockDetector {
+  detect(text: string): CodeBlock[] {
+    return Array.from(this.detectStream(text));
+  }
+
+  // Percorre o texto linha a linha, emitindo cada listing assim que ele termina
+  *detectStream(text: string): Generator<CodeBlock> {
+    let blockStart = -1;
+    let blockEnd = -1;
+    let lastCodeLine = -1;
+    let codeLines = 0;
+
+    const closeBlock = (): CodeBlock | undefined => {
+      const block = blockStart >= 0 && codeLines >= MIN_CODE_LINES
+        ? { start: blockStart, end: blockEnd, language: this.detectLanguage(text.slice(blockStart, blockEnd)) }
+        : undefined;
+      blockStart = -1;
+      blockEnd = -1;
+      lastCodeLine = -1;
+      codeLines = 0;
+      return block;
+    };
+
+    let lineIndex = 0;
+    for (const line of this.iterateLines(text)) {
+      if (line.score >= CODE_LINE_THRESHOLD) {
+        if (blockStart < 0) {
+          blockStart = line.start;
+        }
+        blockEnd = line.end;
+        lastCodeLine = lineIndex;
+        codeLines++;
+      } else if (!(blockStart >= 0 && lineIndex - lastCodeLine <= MAX_GAP_LINES && line.score >= 0)) {
+        // Linhas em branco ou neutras dentro de um listing não o encerram imediatamente
+        const block = closeBlock();
+        if (block) {
+          yield block;
+        }
+      }
+      lineIndex++;
+    }
+
+    const block = closeBlock();
+    if (block) {
+      yield block;
+    }
+  }
+
+  detectLanguage(code: string): CodeLanguage {
+    const lines = code.split('\n').map(line => line.trim()).filter(Boolean);
+    const count = (pattern: RegExp) => lines.filter(line => pattern.test(line)).length;
+
+    if (count(SHELL_PROMPT) >= Math.ceil(lines.length / 2)) {
+      return 'shell';
+    }
+
+    const trimmed = code.trim();
+    if (/^[[{]/.test(trimmed) && /"[^"]+"\s*:/.test(trimmed) && !/\b(?:function|const|let|var)\b/.test(trimmed)) {
+      return 'json';
+    }
+
+    const htmlLines = count(HTML_TAG);
+    const jsLines = count(JS_KEYWORD_START) + count(/=>|console\.|\bdocument\.|\bwindow\./);
+
+    if (htmlLines > jsLines && htmlLines >= Math.ceil(lines.length / 3)) {
+      return 'html';
+    }
+
+    // Seletores com blocos de declarações "propriedade: valor;"
+    if (count(/^[.#@]?[\w\-\s,:>.#[\]="*]+\{$/) > 0 && count(/^[\w-]+\s*:\s*[^;]+;$/) > 0 && jsLines === 0) {
+      return 'css';
+    }
+
+    if (jsLines > 0 || count(CODE_LINE_END) > 0) {
+      return 'javascript';
+    }
+
+    return 'unknown';
+  }
+
+  private *iterateLines(text: string): Generator<LineInfo> {
+    let offset = 0;
+
+    while (offset <= text.length) {
+      const lineBreak = text.indexOf('\n', offset);
+      const end = lineBreak < 0 ? text.length : lineBreak;
+      const rawLine = text.slice(offset, end);
+
+      yield { start: offset, end, text: rawLine, score: this.scoreLine(rawLine) };
+      offset = end + 1;
+    }
+  }
+
+  private scoreLine(rawLine: string): number {
+    const line = rawLine.trim();
+
+    // Linhas vazias são neutras: não iniciam nem encerram um listing
+    if (!line) {
+      return 0;
+    }
+
+    let score = 0;
+
+    // Indentação preservada (a renderização do PDF indenta trechos em fonte monoespaçada)
+    if (/^(?: {2,}|\t)/.test(rawLine)) score += 1;
+    // Colunas alinhadas com vários espaços internos são típicas de texto monoespaçado
+    if (/\S {3,}\S/.test(line)) score += 1;
+
+    if (JS_KEYWORD_START.test(line)) score += 2;
+    if (COMMENT_START.test(line)) score += 2;
+    if (/^[}\])]+[;,)]*$/.test(line)) score += 3;
+    if (CODE_LINE_END.test(line)) score += 1;
+    if (CODE_TOKENS.test(line)) score += 1;
+    if (HTML_TAG.test(line)) score += 1;
+    if (SHELL_PROMPT.test(line)) score += 2;
+
+    // Prosa: frases longas terminadas em ponto, com muitas palavras e poucos símbolos
+    const words = line.split(/\s+/).length;
+    const symbols = (line.match(/[{}()[\];=<>]/g) || []).length;
+    if (/[.?!]["')]?$/.test(line) && words >= 6) score -= 2;
+    if (words >= 12 && symbols <= 1) score -= 2;
+
+    return score;
+  }
+}
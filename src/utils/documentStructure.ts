@@ -0,0 +1,272 @@
+export interface OutlineNode {
+  title: string;
+  pageNumber?: number;
+  children: OutlineNode[];
+}
+
+export interface StructureHeading {
+  // 1 = capítulo, 2+ = seções e subseções
+  level: number;
+  title: string;
+  chapter?: number;
+  pageNumber: number;
+  // Posição do título dentro do texto da página
+  offsetInPage: number;
+}
+
+export interface ChunkStructure {
+  chapter?: number;
+  chapterTitle?: string;
+  sectionPath: string[];
+}
+
+interface StructurePage {
+  pageNumber: number;
+  text: string;
+}
+
+// Ex: "CHAPTER 13", "Chapter 13. Asynchronous JavaScript", "Capítulo 2: Estrutura"
+const CHAPTER_PATTERN = /^(?:CHAPTER|Chapter|CAPÍTULO|Capítulo)\s+(\d+)\s*[.:\-–—]?\s*(.*)$/;
+// Ex: "13.2 Promises", "13.2.1 Handling Errors with Promises"
+const SECTION_PATTERN = /^(\d+)((?:\.\d+)+)\.?\s+(\S.*)$/;
+// Ex: "1  Introduction" (apenas no topo da página)
+const NUMBERED_CHAPTER_PATTERN = /^(\d+)\.?\s+([A-Z]\S.*)$/;
+
+const MAX_HEADING_LENGTH = 100;
+// Linhas iniciais da página em que um título de capítulo numerado é aceito
+const CHAPTER_TOP_LINES = 3;
+
+export class DocumentStructureDetector {
+  // Usa o outline (bookmarks) quando existir, senão recorre às heurísticas de títulos
+  detect(pages: StructurePage[], outline: OutlineNode[] = []): StructureHeading[] {
+    const outlineHeadings = this.fromOutline(outline, pages);
+
+    if (outlineHeadings.length > 0) {
+      console.log(`Estrutura detectada pelo outline do documento: ${outlineHeadings.length} títulos`);
+      return outlineHeadings;
+    }
+
+    const heuristicHeadings = this.fromHeuristics(pages);
+    console.log(`Estrutura detectada por heurísticas: ${heuristicHeadings.length} títulos`);
+    return heuristicHeadings;
+  }
+
+  fromOutline(outline: OutlineNode[], pages: StructurePage[]): StructureHeading[] {
+    const pagesByNumber = new Map(pages.map(page => [page.pageNumber, page]));
+    const headings: StructureHeading[] = [];
+
+    const visit = (nodes: OutlineNode[], level: number, chapter?: number) => {
+      for (const node of nodes) {
+        const title = this.normalizeTitle(node.title);
+
+        // Entradas sem página de destino não podem ser posicionadas no texto
+        if (node.pageNumber === undefined || !title) {
+          visit(node.children, level + 1, chapter);
+          continue;
+        }
+
+        const nodeChapter = level === 1 ? this.parseChapterNumber(title) : chapter;
+        const page = pagesByNumber.get(node.pageNumber);
+
+        headings.push({
+          level,
+          title: level === 1 ? this.stripChapterPrefix(title) : title,
+          chapter: nodeChapter,
+          pageNumber: node.pageNumber,
+          offsetInPage: page ? this.findTitleOffset(page.text, title) : 0,
+        });
+
+        visit(node.children, level + 1, nodeChapter);
+      }
+    };
+
+    visit(outline, 1);
+    return this.sortHeadings(headings);
+  }
+
+  fromHeuristics(pages: StructurePage[]): StructureHeading[] {
+    const headings: StructureHeading[] = [];
+    let currentChapter: number | undefined;
+
+    for (const page of pages) {
+      const lines = page.text.split('\n');
+      let offset = 0;
+      let nonEmptyLineIndex = 0;
+
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        const lineOffset = offset;
+        offset += lines[i].length + 1;
+
+        if (!line) {
+          continue;
+        }
+        nonEmptyLineIndex++;
+
+        if (line.length > MAX_HEADING_LENGTH) {
+          continue;
+        }
+
+        const chapterMatch = line.match(CHAPTER_PATTERN);
+        // "CHAPTER 13" sozinho termina em número, então o filtro de sumário vale só para o título
+        if (chapterMatch && !(chapterMatch[2] && this.looksLikeTocEntry(line))) {
+          const chapter = parseInt(chapterMatch[1]);
+          // "CHAPTER 13" costuma vir com o título na linha seguinte
+          const title = chapterMatch[2].trim() || this.nextNonEmptyLine(lines, i) || `Chapter ${chapter}`;
+          headings.push({ level: 1, title, chapter, pageNumber: page.pageNumber, offsetInPage: lineOffset });
+          currentChapter = chapter;
+          continue;
+        }
+
+        if (chapterMatch || this.looksLikeTocEntry(line)) {
+          continue;
+        }
+
+        const sectionMatch = line.match(SECTION_PATTERN);
+        if (sectionMatch) {
+          const chapter = parseInt(sectionMatch[1]);
+          // Numeração de seção precisa pertencer ao capítulo atual (evita listas numeradas)
+          if (currentChapter === undefined || chapter === currentChapter) {
+            const depth = sectionMatch[2].split('.').length - 1;
+            headings.push({
+              level: depth + 1,
+              title: line,
+              chapter,
+              pageNumber: page.pageNumber,
+              offsetInPage: lineOffset,
+            });
+          }
+          continue;
+        }
+
+        const numberedMatch = line.match(NUMBERED_CHAPTER_PATTERN);
+        if (numberedMatch && nonEmptyLineIndex <= CHAPTER_TOP_LINES) {
+          const chapter = parseInt(numberedMatch[1]);
+          // Só aceita a sequência natural de capítulos (1, 2, 3...)
+          if (chapter === (currentChapter ?? 0) + 1) {
+            headings.push({
+              level: 1,
+              title: numberedMatch[2].trim(),
+              chapter,
+              pageNumber: page.pageNumber,
+              offsetInPage: lineOffset,
+            });
+            currentChapter = chapter;
+          }
+        }
+      }
+    }
+
+    return this.sortHeadings(headings);
+  }
+
+  // Resolve a estrutura vigente em uma posição (página + offset dentro da página)
+  resolve(headings: StructureHeading[], pageNumber: number, offsetInPage: number): ChunkStructure {
+    const stack: StructureHeading[] = [];
+
+    for (const heading of headings) {
+      if (
+        heading.pageNumber > pageNumber ||
+        (heading.pageNumber === pageNumber && heading.offsetInPage > offsetInPage)
+      ) {
+        break;
+      }
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      stack.push(heading);
+    }
+
+    const chapterHeading = stack.find(heading => heading.level === 1);
+
+    return {
+      chapter: chapterHeading?.chapter ?? stack[0]?.chapter,
+      chapterTitle: chapterHeading?.title,
+      sectionPath: stack.filter(heading => heading.level > 1).map(heading => heading.title),
+    };
+  }
+
+  private sortHeadings(headings: StructureHeading[]): StructureHeading[] {
+    // Ordenação estável: títulos na mesma posição mantêm a ordem do outline
+    return headings
+      .map((heading, index) => ({ heading, index }))
+      .sort((a, b) =>
+        a.heading.pageNumber - b.heading.pageNumber ||
+        a.heading.offsetInPage - b.heading.offsetInPage ||
+        a.index - b.index
+      )
+      .map(({ heading }) => heading);
+  }
+
+  private normalizeTitle(title: string): string {
+    return (title || '').replace(/\s+/g, ' ').trim();
+  }
+
+  private parseChapterNumber(title: string): number | undefined {
+    const match = title.match(/^(?:chapter|capítulo)\s+(\d+)/i) || title.match(/^(\d+)[.:\s]/);
+    return match ? parseInt(match[1]) : undefined;
+  }
+
+  private stripChapterPrefix(title: string): string {
+    const stripped = title
+      .replace(/^(?:chapter|capítulo)\s+\d+\s*[.:\-–—]?\s*/i, '')
+      .replace(/^\d+[.:]?\s+/, '')
+      .trim();
+    return stripped || title;
+  }
+
+  private findTitleOffset(pageText: string, title: string): number {
+    const exact = pageText.indexOf(title);
+    if (exact >= 0) {
+      return exact;
+    }
+
+    // Quebras de linha e espaços extras na página não devem impedir a localização
+    const pattern = title
+      .split(' ')
+      .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\\s+');
+    const match = new RegExp(pattern, 'i').exec(pageText);
+    return match ? match.index : 0;
+  }
+
+  private looksLikeTocEntry(line: string): boolean {
+    // Entradas de sumário: "13.2 Promises ........ 341"
+    return /\.{3,}/.test(line) || /\s\d+$/.test(line);
+  }
+
+  private nextNonEmptyLine(lines: string[], index: number): string | undefined {
+    for (let i = index + 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (line) {
+        return line.length <= MAX_HEADING_LENGTH ? line : undefined;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Representação em "breadcrumb" usada nas fontes das respostas e da busca
+export function formatBreadcrumb(metadata: Record<string, any>): string | undefined {
+  const parts: string[] = [];
+
+  if (metadata.chapterTitle) {
+    parts.push(
+      metadata.chapter !== undefined
+        ? `Chapter ${metadata.chapter} ${metadata.chapterTitle}`
+        : metadata.chapterTitle
+    );
+  } else if (metadata.chapter !== undefined) {
+    parts.push(`Chapter ${metadata.chapter}`);
+  }
+
+  // Nos metadados gravados no Redis, sectionPath é texto ("Parte > Seção")
+  if (Array.isArray(metadata.sectionPath)) {
+    parts.push(...metadata.sectionPath);
+  } else if (typeof metadata.sectionPath === 'string' && metadata.sectionPath) {
+    parts.push(...metadata.sectionPath.split(' > '));
+  }
+
+  return parts.length > 0 ? parts.join(' › ') : undefined;
+}
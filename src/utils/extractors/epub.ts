@@ -0,0 +1,191 @@
+import path from 'path';
+import type { OutlineNode } from '../documentStructure';
+import { htmlToText, inlineText } from './html';
+import { DocumentExtractor, ExtractedDocument, ExtractedPage } from './types';
+import { ZipArchive } from './zipArchive';
+
+interface ManifestItem {
+  href: string;
+  mediaType: string;
+  properties: string;
+}
+
+const XHTML_TYPES = ['application/xhtml+xml', 'text/html'];
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+// Resolve um href relativo ao arquivo que o contém, sem o fragmento (#id)
+function resolveHref(baseFile: string, href: string): string {
+  const [target] = href.split('#');
+  return path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), decodeURIComponent(target)));
+}
+
+/**
+ * Extrai livros EPUB (2 e 3): cada documento do spine vira uma "página" e o
+ * sumário (nav do EPUB 3 ou toc.ncx do EPUB 2) fornece capítulos e seções.
+ */
+export class EpubExtractor implements DocumentExtractor {
+  readonly format = 'epub' as const;
+  readonly extensions = ['.epub'];
+
+  async extract(filePath: string): Promise<ExtractedDocument> {
+    const archive = ZipArchive.fromFile(filePath);
+
+    const container = archive.readText('META-INF/container.xml');
+    const packagePath = container.match(/<rootfile\b[^>]*>/i)?.[0];
+    const opfPath = packagePath ? attribute(packagePath, 'full-path') : undefined;
+    if (!opfPath) {
+      throw new Error(`EPUB sem arquivo de pacote (OPF): ${filePath}`);
+    }
+
+    const opf = archive.readText(opfPath);
+    const manifest = this.readManifest(opf, opfPath);
+
+    // Documentos do spine, na ordem de leitura
+    const pages: ExtractedPage[] = [];
+    const pageByHref = new Map<string, number>();
+    for (const itemref of opf.match(/<itemref\b[^>]*>/gi) || []) {
+      const item = manifest.get(attribute(itemref, 'idref') || '');
+      if (!item || !XHTML_TYPES.includes(item.mediaType) || !archive.has(item.href)) {
+        continue;
+      }
+
+      const text = htmlToText(archive.readText(item.href));
+      if (!text) {
+        continue;
+      }
+
+      const pageNumber = pages.length + 1;
+      pages.push({ pageNumber, text });
+      pageByHref.set(item.href, pageNumber);
+    }
+
+    const outline = this.readTableOfContents(archive, opf, manifest, pageByHref);
+    console.log(`EPUB extraído: ${pages.length} documentos no spine, ${outline.length} entradas no sumário`);
+
+    return { source: filePath, format: this.format, pages, outline, paginated: false };
+  }
+
+  private readManifest(opf: string, opfPath: string): Map<string, ManifestItem> {
+    const manifest = new Map<string, ManifestItem>();
+
+    for (const tag of opf.match(/<item\b[^>]*>/gi) || []) {
+      const id = attribute(tag, 'id');
+      const href = attribute(tag, 'href');
+      if (id && href) {
+        manifest.set(id, {
+          href: resolveHref(opfPath, href),
+          mediaType: attribute(tag, 'media-type') || '',
+          properties: attribute(tag, 'properties') || '',
+        });
+      }
+    }
+
+    return manifest;
+  }
+
+  private readTableOfContents(
+    archive: ZipArchive,
+    opf: string,
+    manifest: Map<string, ManifestItem>,
+    pageByHref: Map<string, number>
+  ): OutlineNode[] {
+    const items = Array.from(manifest.values());
+
+    // EPUB 3: documento de navegação
+    const nav = items.find(item => item.properties.split(/\s+/).includes('nav'));
+    if (nav && archive.has(nav.href)) {
+      const outline = this.parseNavDocument(archive.readText(nav.href), nav.href, pageByHref);
+      if (outline.length > 0) {
+        return outline;
+      }
+    }
+
+    // EPUB 2: toc.ncx referenciado pelo spine
+    const spine = opf.match(/<spine\b[^>]*>/i)?.[0];
+    const ncxId = spine ? attribute(spine, 'toc') : undefined;
+    const ncx = (ncxId && manifest.get(ncxId)) || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncx && archive.has(ncx.href)) {
+      return this.parseNcx(archive.readText(ncx.href), ncx.href, pageByHref);
+    }
+
+    return [];
+  }
+
+  private parseNavDocument(html: string, navPath: string, pageByHref: Map<string, number>): OutlineNode[] {
+    const tocNav = html.match(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav\s*>/i)
+      || html.match(/<nav\b[^>]*>([\s\S]*?)<\/nav\s*>/i);
+    if (!tocNav) {
+      return [];
+    }
+
+    const content = tocNav[1];
+    const root: OutlineNode[] = [];
+    const lists: OutlineNode[][] = [];
+    let lastNode: OutlineNode | undefined;
+    let label: { href?: string; textStart: number } | undefined;
+
+    for (const match of content.matchAll(/<(\/?)(ol|a|span)\b([^>]*)>/gi)) {
+      const [tag, closing, name] = match;
+      const index = match.index ?? 0;
+
+      if (name.toLowerCase() === 'ol') {
+        if (closing) {
+          lists.pop();
+        } else {
+          lists.push(lists.length === 0 ? root : lastNode ? lastNode.children : lists[lists.length - 1]);
+        }
+        lastNode = undefined;
+        continue;
+      }
+
+      if (!closing && !label) {
+        label = { href: attribute(tag, 'href'), textStart: index + tag.length };
+      } else if (closing && label) {
+        const title = inlineText(content.slice(label.textStart, index));
+        const node: OutlineNode = {
+          title,
+          pageNumber: label.href ? pageByHref.get(resolveHref(navPath, label.href)) : undefined,
+          children: [],
+        };
+        (lists[lists.length - 1] ?? root).push(node);
+        lastNode = node;
+        label = undefined;
+      }
+    }
+
+    return root;
+  }
+
+  private parseNcx(ncx: string, ncxPath: string, pageByHref: Map<string, number>): OutlineNode[] {
+    const root: OutlineNode[] = [];
+    const stack: OutlineNode[] = [];
+
+    for (const match of ncx.matchAll(/<(\/?)navPoint\b[^>]*>|<text\b[^>]*>([\s\S]*?)<\/text\s*>|<content\b[^>]*>/gi)) {
+      const [tag, closing, text] = match;
+      const current = stack[stack.length - 1];
+
+      if (/^<\/?navPoint/i.test(tag)) {
+        if (closing) {
+          stack.pop();
+        } else {
+          const node: OutlineNode = { title: '', children: [] };
+          (current ? current.children : root).push(node);
+          stack.push(node);
+        }
+      } else if (text !== undefined) {
+        if (current && !current.title) {
+          current.title = inlineText(text);
+        }
+      } else if (current && current.pageNumber === undefined) {
+        const src = attribute(tag, 'src');
+        current.pageNumber = src ? pageByHref.get(resolveHref(ncxPath, src)) : undefined;
+      }
+    }
+
+    return root;
+  }
+}
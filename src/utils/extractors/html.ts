@@ -0,0 +1,126 @@
+import fs from 'fs';
+import { DocumentSection, sectionsToPages } from './sections';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  times: '×',
+  rarr: '→',
+  larr: '←',
+};
+
+// Elementos que não fazem parte do conteúdo (navegação, scripts, metadados)
+const REMOVED_ELEMENTS = /<(script|style|head|nav|svg|template|noscript)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const BLOCK_TAGS = /<\/?(?:p|div|section|article|main|aside|header|footer|ul|ol|dl|table|thead|tbody|tr|blockquote|figure|figcaption|details|summary|hr|body|html)\b[^>]*>/gi;
+const HEADING = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi;
+const PRE_BLOCK = /<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi;
+// Marcador temporário para blocos <pre>, cujo espaçamento precisa ser preservado
+const PRE_PLACEHOLDER = /\u0000PRE(\d+)\u0000/g;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+export function inlineText(html: string): string {
+  return decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+}
+
+// Converte um trecho de HTML (sem títulos) em texto, preservando parágrafos, listas e blocos <pre>
+function blockText(html: string, preBlocks: string[]): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n• ')
+    .replace(/<\/li\s*>/gi, '\n')
+    .replace(/<(?:dt|dd)\b[^>]*>/gi, '\n')
+    .replace(/<\/(?:td|th)\s*>/gi, ' ')
+    .replace(BLOCK_TAGS, '\n\n');
+
+  const lines = decodeEntities(stripTags(text))
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+/g, ' ').trim());
+
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(PRE_PLACEHOLDER, (_, index: string) => preBlocks[parseInt(index)])
+    .trim();
+}
+
+export function extractHtmlTitle(html: string): string | undefined {
+  const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  return match ? inlineText(match[1]) || undefined : undefined;
+}
+
+// Divide o HTML em seções pelos títulos <h1>..<h6>
+export function htmlToSections(html: string): DocumentSection[] {
+  const preBlocks: string[] = [];
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(REMOVED_ELEMENTS, '')
+    .replace(PRE_BLOCK, (_, code: string) => {
+      preBlocks.push(decodeEntities(stripTags(code.replace(/<br\s*\/?>/gi, '\n'))).replace(/^\n+|\s+$/g, ''));
+      return `\n\n\u0000PRE${preBlocks.length - 1}\u0000\n\n`;
+    });
+
+  const sections: DocumentSection[] = [];
+  let cursor = 0;
+  let current: DocumentSection = { level: 0, body: '' };
+
+  for (const match of cleaned.matchAll(HEADING)) {
+    current.body = blockText(cleaned.slice(cursor, match.index), preBlocks);
+    sections.push(current);
+
+    current = { level: parseInt(match[1]), title: inlineText(match[2]) || undefined, body: '' };
+    cursor = (match.index ?? 0) + match[0].length;
+  }
+
+  current.body = blockText(cleaned.slice(cursor), preBlocks);
+  sections.push(current);
+
+  return sections.filter(section => section.title || section.body);
+}
+
+export function htmlToText(html: string): string {
+  return htmlToSections(html)
+    .map(section => [section.title, section.body].filter(Boolean).join('\n\n'))
+    .join('\n\n');
+}
+
+export class HtmlExtractor implements DocumentExtractor {
+  readonly format = 'html' as const;
+  readonly extensions = ['.html', '.htm', '.xhtml'];
+
+  async extract(filePath: string): Promise<ExtractedDocument> {
+    const html = fs.readFileSync(filePath, 'utf-8');
+    const { pages, outline } = sectionsToPages(htmlToSections(html));
+
+    return { source: filePath, format: this.format, pages, outline, paginated: false };
+  }
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { EpubExtractor } from './epub';
+import { HtmlExtractor } from './html';
+import { MarkdownExtractor } from './markdown';
+import { PdfExtractor, PdfReader } from './pdf';
+import { TextExtractor } from './text';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+export * from './types';
+
+/**
+ * Registro de extratores por extensão de arquivo. Novos formatos são
+ * adicionados com register(), sem alterar o pipeline de chunking.
+ */
+export class ExtractorRegistry {
+  private extractors = new Map<string, DocumentExtractor>();
+
+  register(extractor: DocumentExtractor): this {
+    for (const extension of extractor.extensions) {
+      this.extractors.set(extension.toLowerCase(), extractor);
+    }
+    return this;
+  }
+
+  get(filePath: string): DocumentExtractor | undefined {
+    return this.extractors.get(path.extname(filePath).toLowerCase());
+  }
+
+  isSupported(filePath: string): boolean {
+    return this.get(filePath) !== undefined;
+  }
+
+  supportedExtensions(): string[] {
+    return Array.from(this.extractors.keys());
+  }
+
+  async extract(filePath: string): Promise<ExtractedDocument> {
+    const extractor = this.get(filePath);
+    if (!extractor) {
+      throw new Error(
+        `Formato não suportado: ${path.basename(filePath)}. Extensões aceitas: ${this.supportedExtensions().join(', ')}`
+      );
+    }
+
+    console.log(`Extraindo documento (${extractor.format}): ${filePath}`);
+    return extractor.extract(filePath);
+  }
+
+  // Expande arquivos e diretórios nos documentos suportados, em ordem alfabética
+  resolveSources(inputs: string[]): string[] {
+    const sources: string[] = [];
+
+    for (const input of inputs) {
+      if (!fs.existsSync(input)) {
+        throw new Error(`Arquivo ou diretório não encontrado: ${input}`);
+      }
+
+      if (fs.statSync(input).isDirectory()) {
+        const files = fs.readdirSync(input)
+          .map(file => path.join(input, file))
+          .filter(file => fs.statSync(file).isFile() && this.isSupported(file))
+          .sort();
+        sources.push(...files);
+      } else if (this.isSupported(input)) {
+        sources.push(input);
+      } else {
+        throw new Error(`Formato não suportado: ${input}. Extensões aceitas: ${this.supportedExtensions().join(', ')}`);
+      }
+    }
+
+    return sources;
+  }
+}
+
+export function createDefaultExtractorRegistry(pdfReader: PdfReader): ExtractorRegistry {
+  return new ExtractorRegistry()
+    .register(new PdfExtractor(pdfReader))
+    .register(new EpubExtractor())
+    .register(new HtmlExtractor())
+    .register(new MarkdownExtractor())
+    .register(new TextExtractor());
+}
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import { DocumentSection, sectionsToPages } from './sections';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+const ATX_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+// Remove marcações inline de um título ("**Promises** e `async`" -> "Promises e async")
+function plainTitle(title: string): string {
+  return title
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]+/g, '')
+    .trim();
+}
+
+export function markdownToSections(markdown: string): DocumentSection[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { level: 0, body: '' };
+  let body: string[] = [];
+  let fence: string | undefined;
+  let start = 0;
+
+  // Front matter YAML no início do arquivo não é conteúdo
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) {
+      start = end + 1;
+    }
+  }
+
+  const startSection = (level: number, title: string) => {
+    current.body = body.join('\n');
+    sections.push(current);
+    current = { level, title: plainTitle(title) || undefined, body: '' };
+    body = [];
+  };
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Títulos dentro de blocos de código não contam
+    const fenceMatch = line.match(CODE_FENCE);
+    if (fenceMatch) {
+      fence = fence === undefined ? fenceMatch[1] : fence === fenceMatch[1] ? undefined : fence;
+      body.push(line);
+      continue;
+    }
+    if (fence !== undefined) {
+      body.push(line);
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      startSection(atx[1].length, atx[2]);
+      continue;
+    }
+
+    // Título "setext": texto sublinhado com === (nível 1) ou --- (nível 2)
+    const next = lines[i + 1];
+    if (line.trim() && !/^\s/.test(line) && next !== undefined && SETEXT_UNDERLINE.test(next)
+      && (body.length === 0 || !body[body.length - 1].trim())) {
+      startSection(next.trim()[0] === '=' ? 1 : 2, line);
+      i++;
+      continue;
+    }
+
+    body.push(line);
+  }
+
+  current.body = body.join('\n');
+  sections.push(current);
+
+  return sections.filter(section => section.title || section.body.trim());
+}
+
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly format = 'markdown' as const;
+  readonly extensions = ['.md', '.markdown', '.mdx'];
+
+  async extract(filePath: string): Promise<ExtractedDocument> {
+    const markdown = fs.readFileSync(filePath, 'utf-8');
+    const { pages, outline } = sectionsToPages(markdownToSections(markdown));
+
+    return { source: filePath, format: this.format, pages, outline, paginated: false };
+  }
+}
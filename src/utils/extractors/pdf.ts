@@ -0,0 +1,28 @@
+import type { OutlineNode } from '../documentStructure';
+import { DocumentExtractor, ExtractedDocument, ExtractedPage } from './types';
+
+// Implementado pelo PDFProcessor, que concentra a renderização das páginas com o pdf-parse/pdf.js
+export interface PdfReader {
+  extractPagesFromPDF(pdfPath: string): Promise<ExtractedPage[]>;
+  extractOutlineFromPDF(pdfPath: string): Promise<OutlineNode[]>;
+}
+
+export class PdfExtractor implements DocumentExtractor {
+  readonly format = 'pdf' as const;
+  readonly extensions = ['.pdf'];
+
+  constructor(private reader: PdfReader) {}
+
+  async extract(filePath: string): Promise<ExtractedDocument> {
+    const pages = await this.reader.extractPagesFromPDF(filePath);
+
+    let outline: OutlineNode[] = [];
+    try {
+      outline = await this.reader.extractOutlineFromPDF(filePath);
+    } catch (error) {
+      console.warn('Não foi possível ler o outline do PDF, usando heurísticas:', error);
+    }
+
+    return { source: filePath, format: this.format, pages, outline, paginated: true };
+  }
+}
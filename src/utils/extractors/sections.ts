@@ -0,0 +1,49 @@
+import type { OutlineNode } from '../documentStructure';
+import type { ExtractedPage } from './types';
+
+export interface DocumentSection {
+  // Nível do título (1 = maior); seções sem título (preâmbulo) usam 0
+  level: number;
+  title?: string;
+  body: string;
+}
+
+/**
+ * Converte seções com títulos (HTML, Markdown) em "páginas" e outline:
+ * cada seção vira uma página iniciada pelo próprio título, o que permite
+ * localizar o título no texto mesmo quando ele se repete no documento.
+ */
+export function sectionsToPages(sections: DocumentSection[]): { pages: ExtractedPage[]; outline: OutlineNode[] } {
+  const pages: ExtractedPage[] = [];
+  const outline: OutlineNode[] = [];
+  const stack: { level: number; node: OutlineNode }[] = [];
+
+  // O menor nível presente passa a ser o nível 1 (ex: documentos que começam em <h2>)
+  const levels = sections.filter(section => section.title).map(section => section.level);
+  const baseLevel = levels.length > 0 ? Math.min(...levels) : 1;
+
+  for (const section of sections) {
+    const text = [section.title, section.body.trim()].filter(Boolean).join('\n\n');
+    if (!text) {
+      continue;
+    }
+
+    const pageNumber = pages.length + 1;
+    pages.push({ pageNumber, text });
+
+    if (!section.title) {
+      continue;
+    }
+
+    const level = section.level - baseLevel + 1;
+    const node: OutlineNode = { title: section.title, pageNumber, children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].node.children : outline).push(node);
+    stack.push({ level, node });
+  }
+
+  return { pages, outline };
+}
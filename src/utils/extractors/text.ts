@@ -0,0 +1,20 @@
+import fs from 'fs';
+import { DocumentExtractor, ExtractedDocument } from './types';
+
+export class TextExtractor implements DocumentExtractor {
+  readonly format = 'text' as const;
+  readonly extensions = ['.txt', '.text'];
+
+  async extract(filePath: string): Promise<ExtractedDocument> {
+    const text = fs.readFileSync(filePath, 'utf-8').replace(/\r\n?/g, '\n');
+
+    // Sem marcação de títulos: a estrutura é detectada pelas heurísticas (ex: "Chapter 2")
+    return {
+      source: filePath,
+      format: this.format,
+      pages: [{ pageNumber: 1, text }],
+      outline: [],
+      paginated: false,
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import type { OutlineNode } from '../documentStructure';
+
+export type DocumentFormat = 'pdf' | 'epub' | 'html' | 'markdown' | 'text';
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  source: string;
+  format: DocumentFormat;
+  // Em PDFs cada item é uma página; nos demais formatos, uma seção ou capítulo
+  pages: ExtractedPage[];
+  // Títulos fornecidos pelo próprio formato (outline do PDF, TOC do EPUB, headings HTML/Markdown)
+  outline: OutlineNode[];
+  // Indica se pageNumber corresponde a páginas reais (apenas PDF)
+  paginated: boolean;
+}
+
+export interface DocumentExtractor {
+  readonly format: DocumentFormat;
+  // Extensões aceitas, em minúsculas e com ponto (ex: ".md")
+  readonly extensions: string[];
+  extract(filePath: string): Promise<ExtractedDocument>;
+}
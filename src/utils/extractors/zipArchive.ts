@@ -0,0 +1,105 @@
+import fs from 'fs';
+import zlib from 'zlib';
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Registro final (22 bytes) + comentário máximo do arquivo (65535 bytes)
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+/**
+ * Leitor mínimo de arquivos ZIP (suficiente para EPUB): lê o diretório central
+ * e descompacta entradas armazenadas ou comprimidas com deflate.
+ */
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(private buffer: Buffer) {
+    this.readCentralDirectory();
+  }
+
+  static fromFile(filePath: string): ZipArchive {
+    return new ZipArchive(fs.readFileSync(filePath));
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  read(name: string): Buffer {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Entrada não encontrada no arquivo ZIP: ${name}`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Cabeçalho local inválido no arquivo ZIP: ${name}`);
+    }
+
+    const dataStart = offset + 30 + this.buffer.readUInt16LE(offset + 26) + this.buffer.readUInt16LE(offset + 28);
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return Buffer.from(data);
+      case 8:
+        return zlib.inflateRawSync(data);
+      default:
+        throw new Error(`Método de compressão ZIP não suportado (${entry.method}): ${name}`);
+    }
+  }
+
+  readText(name: string): string {
+    return this.read(name).toString('utf-8');
+  }
+
+  private readCentralDirectory(): void {
+    const searchStart = Math.max(0, this.buffer.length - MAX_EOCD_SEARCH);
+    let eocd = -1;
+    for (let offset = this.buffer.length - 22; offset >= searchStart; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = offset;
+        break;
+      }
+    }
+
+    if (eocd < 0) {
+      throw new Error('Arquivo ZIP inválido: diretório central não encontrado');
+    }
+
+    const totalEntries = this.buffer.readUInt16LE(eocd + 10);
+    let offset = this.buffer.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < totalEntries; i++) {
+      if (this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Arquivo ZIP inválido: entrada do diretório central corrompida');
+      }
+
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+      const name = this.buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      this.entries.set(name, {
+        name,
+        method: this.buffer.readUInt16LE(offset + 10),
+        compressedSize: this.buffer.readUInt32LE(offset + 20),
+        localHeaderOffset: this.buffer.readUInt32LE(offset + 42),
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
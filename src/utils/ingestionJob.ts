@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export const INGESTION_JOB_VERSION = 1;
+
+// running: em andamento ou interrompido sem chance de registrar o erro; failed: abortado (retomável);
+// completed_with_failures: chegou ao fim, mas há chunks em failedChunks (tentados de novo no --resume)
+export type IngestionJobStatus = 'running' | 'completed' | 'completed_with_failures' | 'failed';
+
+export interface FailedChunk {
+  id: string;
+  source: string;
+  error: string;
+  failedAt: string;
+}
+
+/**
+ * Checkpoint de uma execução de ingestão: as fontes concluídas e os chunks que
+ * falharam definitivamente. Os chunks já embedados e gravados ficam à parte, no
+ * log <jobId>.stored.log, para que cada checkpoint só acrescente os IDs novos.
+ */
+export interface IngestionJobState {
+  version: number;
+  id: string;
+  indexName: string;
+  status: IngestionJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Script que criou o job (um job só é retomado pelo mesmo script)
+  command: string;
+  completedSources: string[];
+  // Só em jobs criados antes do log de chunks gravados; migrado para o log ao retomar
+  storedChunkIds?: string[];
+  failedChunks: FailedChunk[];
+  // Erro que abortou a execução (status failed)
+  error?: string;
+}
+
+// Falhas seguidas, sem nenhum chunk gravado entre elas, que abortam o job: falhas em sequência
+// indicam provedor de embeddings ou Redis fora do ar, e não um chunk com problema
+const MAX_CONSECUTIVE_FAILURES = 10;
+
+export class IngestionJob {
+  private stored: Set<string>;
+  private completed: Set<string>;
+  private failed: Map<string, FailedChunk>;
+  private consecutiveFailures = 0;
+
+  constructor(private state: IngestionJobState, private store: IngestionJobStore) {
+    this.stored = new Set(store.loadStored(state.id));
+    this.completed = new Set(state.completedSources);
+    this.failed = new Map(state.failedChunks.map(chunk => [chunk.id, chunk]));
+  }
+
+  get id(): string {
+    return this.state.id;
+  }
+
+  get status(): IngestionJobStatus {
+    return this.state.status;
+  }
+
+  isStored(chunkId: string): boolean {
+    return this.stored.has(chunkId);
+  }
+
+  // Fontes com chunks que falharam são processadas de novo ao retomar o job
+  isSourceCompleted(source: string): boolean {
+    return this.completed.has(source) && this.failedChunks().every(chunk => chunk.source !== source);
+  }
+
+  // Acrescenta só os IDs novos ao log; o JSON do job é reescrito apenas se algum chunk deixou de estar em falha
+  markStored(chunkIds: string[]): void {
+    const added: string[] = [];
+    for (const id of chunkIds) {
+      if (!this.stored.has(id)) {
+        this.stored.add(id);
+        added.push(id);
+      }
+    }
+    this.store.appendStored(this.id, added);
+
+    const recovered = chunkIds.filter(id => this.failed.delete(id));
+    this.consecutiveFailures = 0;
+    if (recovered.length > 0) {
+      this.save();
+    }
+  }
+
+  // Registra a falha; lança um erro (abortando o job) se muitas falhas vierem em sequência
+  markFailed(id: string, source: string, error: unknown): void {
+    this.failed.set(id, {
+      id,
+      source,
+      error: error instanceof Error ? error.message : String(error),
+      failedAt: new Date().toISOString(),
+    });
+    this.save();
+
+    if (++this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      throw new Error(
+        `${this.consecutiveFailures} chunks seguidos falharam no job ${this.id}; ` +
+        'verifique o provedor de embeddings e o Redis e retome o job'
+      );
+    }
+  }
+
+  completeSource(source: string): void {
+    this.completed.add(source);
+    this.save();
+  }
+
+  failedChunks(): FailedChunk[] {
+    return [...this.failed.values()];
+  }
+
+  finish(status: Exclude<IngestionJobStatus, 'running'>, error?: unknown): void {
+    this.state.status = status;
+    this.state.error = error === undefined ? undefined : error instanceof Error ? error.message : String(error);
+    this.save();
+  }
+
+  // Relatório dos chunks que falharam definitivamente (vazio se nenhum falhou)
+  formatFailureReport(): string[] {
+    return this.failedChunks().map(chunk => `${chunk.source} / ${chunk.id}: ${chunk.error}`);
+  }
+
+  save(): void {
+    this.state.completedSources = [...this.completed];
+    this.state.failedChunks = this.failedChunks();
+    this.store.save(this.state);
+  }
+}
+
+// Um arquivo JSON por job, em <jobsDir>/<índice>/<jobId>.json, e o log dos chunks gravados em <jobId>.stored.log
+export class IngestionJobStore {
+  private directory: string;
+
+  constructor(jobsDir: string, private indexName: string) {
+    this.directory = path.join(jobsDir, indexName);
+  }
+
+  create(command: string): IngestionJob {
+    const now = new Date();
+    // Ordenável pela data de criação: 20240115-103000-a1b2
+    const id = `${now.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')}-${crypto.randomBytes(2).toString('hex')}`;
+
+    const job = new IngestionJob(
+      {
+        version: INGESTION_JOB_VERSION,
+        id,
+        indexName: this.indexName,
+        status: 'running',
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        command,
+        completedSources: [],
+        failedChunks: [],
+      },
+      this
+    );
+    job.save();
+    return job;
+  }
+
+  resume(jobId: string, command: string): IngestionJob {
+    const jobPath = this.jobPath(jobId);
+    if (!fs.existsSync(jobPath)) {
+      throw new Error(`Job de ingestão não encontrado: ${jobId} (${jobPath})`);
+    }
+
+    const state = JSON.parse(fs.readFileSync(jobPath, 'utf-8')) as IngestionJobState;
+    if (state.version !== INGESTION_JOB_VERSION) {
+      throw new Error(`Versão de job não suportada (${state.version}): ${jobPath}`);
+    }
+    if (state.command !== command) {
+      throw new Error(`O job ${jobId} foi criado por ${state.command} e não pode ser retomado por ${command}`);
+    }
+
+    const legacyStored = state.storedChunkIds ?? [];
+    delete state.storedChunkIds;
+    state.status = 'running';
+    state.error = undefined;
+    const job = new IngestionJob(state, this);
+    job.markStored(legacyStored);
+    job.save();
+    return job;
+  }
+
+  save(state: IngestionJobState): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    // Escrita atômica, como nos manifestos: uma interrupção nunca corrompe o checkpoint
+    const jobPath = this.jobPath(state.id);
+    const tempPath = `${jobPath}.tmp`;
+    state.updatedAt = new Date().toISOString();
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tempPath, jobPath);
+  }
+
+  // Um ID por linha; só acrescenta, então o custo de cada checkpoint não cresce com o job
+  appendStored(jobId: string, chunkIds: string[]): void {
+    if (chunkIds.length === 0) {
+      return;
+    }
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.appendFileSync(this.storedLogPath(jobId), chunkIds.map(id => `${id}\n`).join(''));
+  }
+
+  // Uma linha sem quebra no fim veio de uma escrita interrompida: é descartada do arquivo,
+  // para que o próximo append não a emende a um ID novo
+  loadStored(jobId: string): string[] {
+    const logPath = this.storedLogPath(jobId);
+    if (!fs.existsSync(logPath)) {
+      return [];
+    }
+    const content = fs.readFileSync(logPath, 'utf-8');
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    if (complete.length < content.length) {
+      fs.truncateSync(logPath, Buffer.byteLength(complete));
+    }
+    return complete.split('\n').filter(Boolean);
+  }
+
+  private storedLogPath(jobId: string): string {
+    return this.jobPath(jobId).replace(/\.json$/, '.stored.log');
+  }
+
+  private jobPath(jobId: string): string {
+    if (!/^[\w-]+$/.test(jobId)) {
+      throw new Error(`ID de job inválido: ${jobId}`);
+    }
+    return path.join(this.directory, `${jobId}.json`);
+  }
+}
+
+// Aceita "--resume <jobId>" e "--resume=<jobId>"
+export function parseResumeArg(args: string[]): string | undefined {
+  const index = args.findIndex(arg => arg === '--resume' || arg.startsWith('--resume='));
+  if (index === -1) {
+    return undefined;
+  }
+
+  const jobId = args[index] === '--resume' ? args[index + 1] : args[index].slice('--resume='.length);
+  if (!jobId || jobId.startsWith('--')) {
+    throw new Error('Informe o ID do job: --resume <jobId>');
+  }
+  return jobId;
+}
+
+/**
+ * Executa `run` no lote inteiro; se falhar, divide o lote ao meio e tenta
+ * cada metade, até isolar os itens que falham sozinhos (reportados em
+ * onFailure). Um chunk problemático não derruba o lote inteiro.
+ */
+export async function runIsolatingFailures<T>(
+  items: T[],
+  run: (items: T[]) => Promise<void>,
+  onFailure: (item: T, error: unknown) => void
+): Promise<void> {
+  if (items.length === 0) {
+    return;
+  }
+
+  try {
+    await run(items);
+  } catch (error) {
+    if (items.length === 1) {
+      onFailure(items[0], error);
+      return;
+    }
+
+    const middle = Math.ceil(items.length / 2);
+    console.log(`   ⚠️ Lote de ${items.length} falhou, tentando em duas partes: ${error instanceof Error ? error.message : error}`);
+    await runIsolatingFailures(items.slice(0, middle), run, onFailure);
+    await runIsolatingFailures(items.slice(middle), run, onFailure);
+  }
+}
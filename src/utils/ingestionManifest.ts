@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+
+export const INGESTION_MANIFEST_VERSION = 1;
+
+/**
+ * Estado da ingestão de uma fonte em um índice: IDs dos chunks já gravados
+ * no Redis e a impressão digital dos metadados de cada um.
+ */
+export interface IngestionManifest {
+  version: number;
+  // Nome do grupo de chunks (nome do documento sem extensão, único entre os bundles: ver assertBundleSource)
+  source: string;
+  indexName: string;
+  updatedAt: string;
+  chunks: Record<string, string>;
+  // Passagens pai gravadas e a impressão digital de cada uma
+  parents?: Record<string, string>;
+}
+
+// Um manifesto por fonte e por índice, fora do diretório de chunks (que é lido pelo DirectoryLoader)
+export class IngestionManifestStore {
+  private directory: string;
+
+  constructor(manifestsDir: string, private indexName: string) {
+    this.directory = path.join(manifestsDir, indexName);
+  }
+
+  load(source: string): IngestionManifest {
+    const manifestPath = this.manifestPath(source);
+    if (!fs.existsSync(manifestPath)) {
+      return this.empty(source);
+    }
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as IngestionManifest;
+    if (manifest.version !== INGESTION_MANIFEST_VERSION) {
+      throw new Error(`Versão de manifesto não suportada (${manifest.version}): ${manifestPath}`);
+    }
+    return manifest;
+  }
+
+  save(manifest: IngestionManifest): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    // Escrita atômica: uma ingestão interrompida nunca deixa o manifesto corrompido
+    const manifestPath = this.manifestPath(manifest.source);
+    const tempPath = `${manifestPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ ...manifest, updatedAt: new Date().toISOString() }, null, 2));
+    fs.renameSync(tempPath, manifestPath);
+  }
+
+  delete(source: string): void {
+    const manifestPath = this.manifestPath(source);
+    if (fs.existsSync(manifestPath)) {
+      fs.unlinkSync(manifestPath);
+    }
+  }
+
+  listSources(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => path.basename(file, '.json'))
+      .sort();
+  }
+
+  private empty(source: string): IngestionManifest {
+    return {
+      version: INGESTION_MANIFEST_VERSION,
+      source,
+      indexName: this.indexName,
+      updatedAt: new Date().toISOString(),
+      chunks: {},
+      parents: {},
+    };
+  }
+
+  private manifestPath(source: string): string {
+    return path.join(this.directory, `${source}.json`);
+  }
+}
@@ -1,23 +1,190 @@
 import fs from 'fs';
 import path from 'path';
 import pdf from 'pdf-parse';
+import {
+  ChunkStructure,
+  DocumentStructureDetector,
+  OutlineNode,
+  StructureHeading,
+} from './documentStructure';
+import { CodeLanguage } from './codeBlockDetector';
+import { TextChunker } from './textChunker';
+import { CleanupReport, TextCleaner, TextCleanerOptions, formatCleanupReport } from './textCleaner';
+import { ChunkSizeUnit, Tokenizer } from './tokenizer';
+import { DocumentFormat, ExtractorRegistry, createDefaultExtractorRegistry } from './extractors';
+import { ChunkBundleWriter, assertBundleSource, computeFileChecksum, getChunkBundlePath } from './chunkBundle';
+import { ChunkIdGenerator } from './chunkIdentity';
+
+export interface PDFPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface TextChunk {
+  content: string;
+  pageStart?: number;
+  pageEnd?: number;
+  structure?: ChunkStructure;
+  containsCode?: boolean;
+  codeLanguage?: CodeLanguage;
+  tokenCount?: number;
+  // Passagem maior (ex: a subseção inteira) da qual o chunk faz parte
+  parent?: ParentPassage;
+}
+
+export interface ParentPassage {
+  // Posição da passagem no documento (chunks consecutivos com o mesmo índice compartilham a passagem)
+  index: number;
+  content: string;
+  pageStart?: number;
+  pageEnd?: number;
+  structure?: ChunkStructure;
+  childCount: number;
+}
+
+// Passagem "pai" gravada no bundle: devolvida no lugar dos chunks filhos na busca
+export interface ProcessedParent {
+  id: string;
+  content: string;
+  metadata: {
+    source: string;
+    page?: number;
+    pageEnd?: number;
+    chapter?: number;
+    chapterTitle?: string;
+    sectionPath?: string[];
+    tokenCount?: number;
+    childCount: number;
+  };
+}
 
 export interface ProcessedChunk {
   id: string;
   content: string;
   metadata: {
     source: string;
+    // Página onde o chunk começa e onde termina (iguais se não cruzar páginas)
     page?: number;
+    pageEnd?: number;
+    chapter?: number;
+    chapterTitle?: string;
+    sectionPath?: string[];
+    // Chunks com listings de código (mantidos inteiros) e a linguagem detectada
+    containsCode?: boolean;
+    codeLanguage?: CodeLanguage;
+    // Tokens do chunk no tokenizador do modelo de embedding
+    tokenCount?: number;
+    // ID da passagem pai (apenas em bundles gerados com passagens pai)
+    parentId?: string;
     chunkIndex: number;
     totalChunks: number;
   };
 }
 
+// jsonl: um bundle por documento; json/txt: um arquivo por chunk (formato legado)
+export type ChunkFormat = 'jsonl' | 'json' | 'txt';
+
+export interface ChunkingOptions {
+  chunkSize: number;
+  overlap: number;
+  // Unidade de chunkSize/overlap (padrão: caracteres)
+  unit?: ChunkSizeUnit;
+  // Limite opcional: se excedido, o processamento falha em vez de descartar conteúdo
+  maxChunks?: number;
+  // Limpeza do texto extraído antes do chunking (padrão: todas as etapas habilitadas)
+  cleanup?: Partial<TextCleanerOptions>;
+  // Tamanho máximo das passagens pai, na mesma unidade (0 = sem passagens pai)
+  parentSize?: number;
+}
+
+export interface ChunkingSummary {
+  totalChunks: number;
+  codeChunks: number;
+  chunksDirectory: string;
+  // Caminho do bundle JSONL (apenas no formato 'jsonl')
+  bundlePath?: string;
+  // Passagens pai gravadas no bundle
+  totalParents?: number;
+  // O que a limpeza do texto removeu/corrigiu
+  cleanupReport?: CleanupReport;
+  // Primeiros chunks gerados, para logs e testes rápidos
+  preview: ProcessedChunk[];
+}
+
+interface TextSpan {
+  start: number;
+  end: number;
+  containsCode: boolean;
+  codeLanguage?: CodeLanguage;
+}
+
+interface PageOffset {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+// Separador entre páginas no texto concatenado (mesmo usado pelo pdf-parse)
+const PAGE_SEPARATOR = '\n\n';
+
+// Quantidade de chunks mantidos em memória como prévia no processamento em streaming
+const PREVIEW_CHUNKS = 3;
+
+// Mesma versão do pdf.js usada internamente pelo pdf-parse
+const PDFJS_BUILD = 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+
+// Modelo cujo tokenizador mede os chunks quando nenhum é informado
+const DEFAULT_TOKENIZER_MODEL = 'text-embedding-ada-002';
+
+// Indentação máxima reconstruída para linhas em fonte monoespaçada
+const MAX_MONOSPACE_INDENT = 40;
+
+// Renderização equivalente à padrão do pdf-parse, aplicada página a página.
+// Linhas em fonte monoespaçada (listings de código) mantêm a indentação original.
+async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  const styles = textContent.styles || {};
+  const leftMargin = Math.min(...textContent.items.map((item: any) => item.transform[4]));
+
+  const indentationFor = (item: any): string => {
+    if (styles[item.fontName]?.fontFamily !== 'monospace' || !item.str || !item.width) {
+      return '';
+    }
+    const charWidth = item.width / item.str.length;
+    const columns = Math.round((item.transform[4] - leftMargin) / charWidth);
+    return ' '.repeat(Math.max(0, Math.min(columns, MAX_MONOSPACE_INDENT)));
+  };
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || !lastY) {
+      text += lastY ? item.str : indentationFor(item) + item.str;
+    } else {
+      text += '\n' + indentationFor(item) + item.str;
+    }
+    lastY = item.transform[5];
+  }
+
+  return text;
+}
+
 export class PDFProcessor {
   private chunksDir: string;
+  private structureDetector: DocumentStructureDetector;
+  private tokenizer: Tokenizer;
+  private extractors: ExtractorRegistry;
 
-  constructor(chunksDir: string) {
+  // O tokenizador deve corresponder ao modelo de embedding usado na indexação
+  constructor(chunksDir: string, tokenizerModel: string = DEFAULT_TOKENIZER_MODEL) {
     this.chunksDir = chunksDir;
+    this.structureDetector = new DocumentStructureDetector();
+    this.tokenizer = new Tokenizer(tokenizerModel);
+    this.extractors = createDefaultExtractorRegistry(this);
     this.ensureChunksDirectory();
   }
 
@@ -27,94 +194,438 @@ export class PDFProcessor {
     }
   }
 
-  async extractTextFromPDF(pdfPath: string): Promise<string> {
+  async extractPagesFromPDF(pdfPath: string): Promise<PDFPage[]> {
     try {
-      console.log(`Extraindo texto do PDF: ${pdfPath}`);
+      console.log(`Extraindo páginas do PDF: ${pdfPath}`);
       
       const dataBuffer = fs.readFileSync(pdfPath);
-      const pdfData = await pdf(dataBuffer);
+      const renderedPages = new Map<number, string>();
+
+      // O pdf-parse renderiza as páginas em sequência; capturamos o texto de cada uma
+      const pdfData = await pdf(dataBuffer, {
+        pagerender: async (pageData: any) => {
+          const text = await renderPageText(pageData);
+          renderedPages.set(pageData.pageNumber ?? renderedPages.size + 1, text);
+          return text;
+        },
+      });
+
+      // Páginas que falharam na renderização ficam vazias, mas mantêm a numeração
+      const pages: PDFPage[] = [];
+      for (let pageNumber = 1; pageNumber <= pdfData.numpages; pageNumber++) {
+        pages.push({ pageNumber, text: renderedPages.get(pageNumber) ?? '' });
+      }
       
       console.log(`Texto extraído com sucesso. Total de páginas: ${pdfData.numpages}`);
-      return pdfData.text;
+      return pages;
     } catch (error) {
-      console.error('Erro ao extrair texto do PDF:', error);
+      console.error('Erro ao extrair páginas do PDF:', error);
       throw error;
     }
   }
 
-  splitTextIntoChunks(text: string, chunkSize: number, overlap: number): string[] {
-    console.log(`Dividindo texto em chunks de ${chunkSize} caracteres com overlap de ${overlap}`);
-    
-    // Verificar se o texto é muito grande e limitar se necessário
-    const maxTextLength = 50 * 1024 * 1024; // 50MB limite
-    if (text.length > maxTextLength) {
-      console.warn(`Texto muito grande (${text.length} chars), limitando para ${maxTextLength} caracteres`);
-      text = text.substring(0, maxTextLength);
-    }
-    
-    const chunks: string[] = [];
-    let start = 0;
-    let chunkIndex = 0;
-    const maxChunks = 10000; // Limite de chunks para evitar arrays muito grandes
-
-    while (start < text.length && chunkIndex < maxChunks) {
-      const end = Math.min(start + chunkSize, text.length);
-      let chunk = text.slice(start, end);
-
-      // Tentar quebrar em uma palavra completa
-      if (end < text.length) {
-        const lastSpaceIndex = chunk.lastIndexOf(' ');
-        if (lastSpaceIndex > chunkSize * 0.8) { // Se encontrar espaço em 80% do chunk
-          chunk = chunk.slice(0, lastSpaceIndex);
-        }
+  // Remove cabeçalhos, rodapés e números de página e normaliza o texto antes do chunking
+  cleanPages(pages: PDFPage[], options: Partial<TextCleanerOptions> = {}): { pages: PDFPage[]; report: CleanupReport } {
+    const result = new TextCleaner(options).clean(pages);
+    console.log(formatCleanupReport(result.report));
+    return result;
+  }
+
+  async extractOutlineFromPDF(pdfPath: string): Promise<OutlineNode[]> {
+    // O pdf-parse não expõe o outline, então abrimos o documento com o pdf.js embutido nele
+    const PDFJS = require(PDFJS_BUILD);
+    PDFJS.disableWorker = true;
+
+    const doc = await PDFJS.getDocument(new Uint8Array(fs.readFileSync(pdfPath)));
+
+    try {
+      const outline = await doc.getOutline();
+      return outline ? await this.resolveOutlineItems(doc, outline) : [];
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  private async resolveOutlineItems(doc: any, items: any[]): Promise<OutlineNode[]> {
+    const nodes: OutlineNode[] = [];
+
+    for (const item of items) {
+      nodes.push({
+        title: item.title,
+        pageNumber: await this.resolveOutlineDestination(doc, item.dest),
+        children: await this.resolveOutlineItems(doc, item.items || []),
+      });
+    }
+
+    return nodes;
+  }
+
+  private async resolveOutlineDestination(doc: any, dest: any): Promise<number | undefined> {
+    try {
+      // Destinos nomeados precisam ser resolvidos para o array [ref, ...]
+      const explicitDest = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+      if (!Array.isArray(explicitDest) || !explicitDest[0]) {
+        return undefined;
       }
 
-      chunks.push(chunk.trim());
-      
-      // Mover para próximo chunk com overlap
-      start = start + chunk.length - overlap;
-      chunkIndex++;
+      const target = explicitDest[0];
+      const pageIndex = typeof target === 'number' ? target : await doc.getPageIndex(target);
+      return pageIndex + 1;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async detectStructure(pdfPath: string, pages: PDFPage[]): Promise<StructureHeading[]> {
+    let outline: OutlineNode[] = [];
+
+    try {
+      outline = await this.extractOutlineFromPDF(pdfPath);
+    } catch (error) {
+      console.warn('Não foi possível ler o outline do PDF, usando heurísticas:', error);
+    }
+
+    return this.structureDetector.detect(pages, outline);
+  }
+
+  async extractTextFromPDF(pdfPath: string): Promise<string> {
+    const pages = await this.extractPagesFromPDF(pdfPath);
+    return pages.map(page => page.text).join(PAGE_SEPARATOR);
+  }
+
+  splitTextIntoChunks(text: string, chunkSize: number, overlap: number, unit: ChunkSizeUnit = 'characters'): string[] {
+    return Array.from(
+      this.streamTextSpans(text, chunkSize, overlap, unit),
+      span => text.slice(span.start, span.end)
+    );
+  }
+
+  splitPagesIntoChunks(
+    pages: PDFPage[],
+    chunkSize: number,
+    overlap: number,
+    headings: StructureHeading[] = [],
+    unit: ChunkSizeUnit = 'characters'
+  ): TextChunk[] {
+    return Array.from(this.streamPageChunks(pages, chunkSize, overlap, headings, unit));
+  }
+
+  // Gera os chunks das páginas sob demanda, sem limite de tamanho do documento.
+  // Com parentSize > 0, chunks consecutivos da mesma seção são agrupados em passagens pai.
+  *streamPageChunks(
+    pages: PDFPage[],
+    chunkSize: number,
+    overlap: number,
+    headings: StructureHeading[] = [],
+    unit: ChunkSizeUnit = 'characters',
+    parentSize: number = 0
+  ): Generator<TextChunk> {
+    const { text, pageOffsets } = this.buildDocumentText(pages);
+    const measure = (start: number, end: number) =>
+      unit === 'tokens' ? this.tokenizer.count(text.slice(start, end)) : end - start;
+
+    // Chunks da passagem pai em formação (no máximo parentSize de texto)
+    let group: { chunk: TextChunk; span: TextSpan }[] = [];
+    let parentIndex = 0;
+
+    for (const span of this.streamTextSpans(text, chunkSize, overlap, unit)) {
+      const startPage = this.findPageAt(pageOffsets, span.start);
+      const endPage = this.findPageAt(pageOffsets, span.end - 1);
+      const content = text.slice(span.start, span.end);
+
+      const chunk: TextChunk = {
+        content,
+        tokenCount: this.tokenizer.count(content),
+        containsCode: span.containsCode,
+        codeLanguage: span.codeLanguage,
+        pageStart: startPage?.pageNumber,
+        pageEnd: endPage?.pageNumber,
+        structure: startPage && headings.length > 0
+          ? this.structureDetector.resolve(headings, startPage.pageNumber, span.start - startPage.start)
+          : undefined,
+      };
+
+      if (parentSize <= 0) {
+        yield chunk;
+        continue;
+      }
+
+      // Uma nova seção ou o limite de tamanho encerram a passagem pai atual
+      if (
+        group.length > 0 &&
+        (this.sectionKey(group[0].chunk) !== this.sectionKey(chunk) ||
+          measure(group[0].span.start, span.end) > parentSize)
+      ) {
+        yield* this.withParent(text, group, parentIndex++);
+        group = [];
+      }
+      group.push({ chunk, span });
     }
 
-    console.log(`Texto dividido em ${chunks.length} chunks`);
-    return chunks;
+    if (group.length > 0) {
+      yield* this.withParent(text, group, parentIndex++);
+    }
+  }
+
+  // A passagem pai vai do início do primeiro chunk ao fim do último (sem repetir o overlap)
+  private *withParent(
+    text: string,
+    group: { chunk: TextChunk; span: TextSpan }[],
+    index: number
+  ): Generator<TextChunk> {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const parent: ParentPassage = {
+      index,
+      content: text.slice(first.span.start, last.span.end),
+      pageStart: first.chunk.pageStart,
+      pageEnd: last.chunk.pageEnd,
+      structure: first.chunk.structure,
+      childCount: group.length,
+    };
+
+    for (const { chunk } of group) {
+      yield { ...chunk, parent };
+    }
+  }
+
+  private sectionKey(chunk: TextChunk): string {
+    return JSON.stringify([chunk.structure?.chapter, chunk.structure?.sectionPath ?? []]);
+  }
+
+  // Conta os chunks sem guardá-los (usado para preencher totalChunks antes da escrita)
+  countPageChunks(
+    pages: PDFPage[],
+    chunkSize: number,
+    overlap: number,
+    unit: ChunkSizeUnit = 'characters'
+  ): { total: number; withCode: number } {
+    const { text } = this.buildDocumentText(pages);
+    let total = 0;
+    let withCode = 0;
+
+    for (const span of this.streamTextSpans(text, chunkSize, overlap, unit)) {
+      total++;
+      if (span.containsCode) {
+        withCode++;
+      }
+    }
+
+    return { total, withCode };
+  }
+
+  private buildDocumentText(pages: PDFPage[]): { text: string; pageOffsets: PageOffset[] } {
+    // Concatenar as páginas guardando o intervalo de cada uma no texto final
+    const pageOffsets: PageOffset[] = [];
+    let text = '';
+    for (const page of pages) {
+      if (pageOffsets.length > 0) {
+        text += PAGE_SEPARATOR;
+      }
+      pageOffsets.push({ pageNumber: page.pageNumber, start: text.length, end: text.length + page.text.length });
+      text += page.text;
+    }
+
+    return { text, pageOffsets };
+  }
+
+  private findPageAt(pageOffsets: PageOffset[], offset: number): PageOffset | undefined {
+    // Busca binária pela última página que começa antes do offset
+    let low = 0;
+    let high = pageOffsets.length - 1;
+    let found: PageOffset | undefined;
+
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (pageOffsets[middle].start <= offset) {
+        found = pageOffsets[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return found;
+  }
+
+  private streamTextSpans(
+    text: string,
+    chunkSize: number,
+    overlap: number,
+    unit: ChunkSizeUnit
+  ): Generator<TextSpan> {
+    // Chunker que mantém listings de código inteiros junto com o parágrafo explicativo
+    const chunker = new TextChunker({
+      chunkSize,
+      overlap,
+      lengthFunction: unit === 'tokens' ? (chunk: string) => this.tokenizer.count(chunk) : undefined,
+    });
+    return chunker.splitStream(text);
+  }
+
+  getTokenizer(): Tokenizer {
+    return this.tokenizer;
+  }
+
+  private toProcessedChunk(
+    chunk: TextChunk,
+    index: number,
+    totalChunks: number,
+    sourceFileName: string,
+    ids: ChunkIdGenerator,
+    parentId?: string
+  ): ProcessedChunk {
+    return {
+      id: ids.next(chunk.content),
+      content: chunk.content,
+      metadata: {
+        source: sourceFileName,
+        page: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        chapter: chunk.structure?.chapter,
+        chapterTitle: chunk.structure?.chapterTitle,
+        sectionPath: chunk.structure?.sectionPath,
+        containsCode: chunk.containsCode,
+        codeLanguage: chunk.codeLanguage,
+        tokenCount: chunk.tokenCount,
+        parentId,
+        chunkIndex: index + 1,
+        totalChunks,
+      },
+    };
+  }
+
+  private toProcessedParent(parent: ParentPassage, sourceFileName: string, ids: ChunkIdGenerator): ProcessedParent {
+    return {
+      id: ids.next(parent.content),
+      content: parent.content,
+      metadata: {
+        source: sourceFileName,
+        page: parent.pageStart,
+        pageEnd: parent.pageEnd,
+        chapter: parent.structure?.chapter,
+        chapterTitle: parent.structure?.chapterTitle,
+        sectionPath: parent.structure?.sectionPath,
+        tokenCount: this.tokenizer.count(parent.content),
+        childCount: parent.childCount,
+      },
+    };
+  }
+
+  private writeChunkFile(processedChunk: ProcessedChunk, format: 'json' | 'txt'): void {
+    // O nome do arquivo mantém a posição do chunk; o ID (hash do conteúdo) fica dentro do JSON
+    const { source, chunkIndex } = processedChunk.metadata;
+    const baseFileName = path.basename(source, path.extname(source));
+    const filePath = path.join(this.chunksDir, `${baseFileName}_chunk_${chunkIndex}.${format}`);
+
+    if (format === 'json') {
+      fs.writeFileSync(filePath, JSON.stringify(processedChunk, null, 2));
+    } else {
+      fs.writeFileSync(filePath, processedChunk.content);
+    }
   }
 
   async saveChunksToFiles(
-    chunks: string[], 
+    chunks: TextChunk[], 
     sourceFileName: string, 
     format: 'json' | 'txt' = 'json'
   ): Promise<ProcessedChunk[]> {
     const processedChunks: ProcessedChunk[] = [];
-    const baseFileName = path.basename(sourceFileName, '.pdf');
+    const ids = new ChunkIdGenerator(sourceFileName);
 
     for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const chunkId = `${baseFileName}_chunk_${i + 1}`;
-      
-      const processedChunk: ProcessedChunk = {
-        id: chunkId,
-        content: chunk,
-        metadata: {
+      const processedChunk = this.toProcessedChunk(chunks[i], i, chunks.length, sourceFileName, ids);
+      this.writeChunkFile(processedChunk, format);
+      processedChunks.push(processedChunk);
+    }
+
+    console.log(`${processedChunks.length} chunks salvos em ${this.chunksDir}`);
+    return processedChunks;
+  }
+
+  // Escreve os chunks à medida que são gerados, mantendo em memória apenas uma prévia
+  async writeChunkStream(
+    chunks: Iterable<TextChunk>,
+    totalChunks: number,
+    sourceFileName: string,
+    format: ChunkFormat = 'jsonl',
+    chunkingOptions?: ChunkingOptions,
+    documentFormat: DocumentFormat = 'pdf'
+  ): Promise<ChunkingSummary> {
+    const preview: ProcessedChunk[] = [];
+    let written = 0;
+    let codeChunks = 0;
+    let totalParents = 0;
+    const ids = new ChunkIdGenerator(sourceFileName);
+    const parentIds = new ChunkIdGenerator(sourceFileName, 'parent');
+    let currentParent: { index: number; id: string } | undefined;
+
+    if (format === 'jsonl') {
+      await assertBundleSource(getChunkBundlePath(this.chunksDir, sourceFileName), sourceFileName);
+    }
+    const bundleWriter = format === 'jsonl'
+      ? new ChunkBundleWriter(getChunkBundlePath(this.chunksDir, sourceFileName), {
           source: sourceFileName,
-          chunkIndex: i + 1,
-          totalChunks: chunks.length,
-        },
-      };
+          format: documentFormat,
+          checksum: await computeFileChecksum(sourceFileName),
+          createdAt: new Date().toISOString(),
+          chunker: {
+            chunkSize: chunkingOptions?.chunkSize ?? 0,
+            overlap: chunkingOptions?.overlap ?? 0,
+            maxChunks: chunkingOptions?.maxChunks,
+            unit: chunkingOptions?.unit ?? 'characters',
+            tokenizer: this.tokenizer.encodingName,
+            cleanup: new TextCleaner(chunkingOptions?.cleanup).getOptions(),
+            parentSize: chunkingOptions?.parentSize || undefined,
+          },
+          totalChunks,
+        })
+      : undefined;
 
-      if (format === 'json') {
-        const filePath = path.join(this.chunksDir, `${chunkId}.json`);
-        fs.writeFileSync(filePath, JSON.stringify(processedChunk, null, 2));
+    for (const chunk of chunks) {
+      // Passagens pai só são gravadas em bundles JSONL; o formato legado guarda apenas os chunks
+      if (bundleWriter && chunk.parent && chunk.parent.index !== currentParent?.index) {
+        const parent = this.toProcessedParent(chunk.parent, sourceFileName, parentIds);
+        bundleWriter.writeParent(parent);
+        currentParent = { index: chunk.parent.index, id: parent.id };
+        totalParents++;
+      }
+
+      const parentId = bundleWriter && chunk.parent ? currentParent?.id : undefined;
+      const processedChunk = this.toProcessedChunk(chunk, written, totalChunks, sourceFileName, ids, parentId);
+      if (bundleWriter) {
+        bundleWriter.write(processedChunk);
       } else {
-        const filePath = path.join(this.chunksDir, `${chunkId}.txt`);
-        fs.writeFileSync(filePath, chunk);
+        this.writeChunkFile(processedChunk, format as 'json' | 'txt');
       }
 
-      processedChunks.push(processedChunk);
+      if (preview.length < PREVIEW_CHUNKS) {
+        preview.push(processedChunk);
+      }
+      if (chunk.containsCode) {
+        codeChunks++;
+      }
+      written++;
     }
 
-    console.log(`${processedChunks.length} chunks salvos em ${this.chunksDir}`);
-    return processedChunks;
+    if (written !== totalChunks) {
+      throw new Error(`Inconsistência na escrita dos chunks: esperados ${totalChunks}, escritos ${written}`);
+    }
+
+    const bundlePath = bundleWriter?.close();
+
+    console.log(
+      `${written} chunks salvos em ${bundlePath ?? this.chunksDir}` +
+      (totalParents > 0 ? ` (${totalParents} passagens pai)` : '')
+    );
+    return {
+      totalChunks: written,
+      codeChunks,
+      chunksDirectory: this.chunksDir,
+      bundlePath,
+      totalParents: bundleWriter ? totalParents : undefined,
+      preview,
+    };
   }
 
   async processPDFToChunks(
@@ -124,13 +635,16 @@ export class PDFProcessor {
     format: 'json' | 'txt' = 'json'
   ): Promise<ProcessedChunk[]> {
     try {
-      // 1. Extrair texto do PDF
-      const text = await this.extractTextFromPDF(pdfPath);
+      // 1. Extrair texto do PDF, página a página
+      const { pages } = this.cleanPages(await this.extractPagesFromPDF(pdfPath));
       
-      // 2. Dividir em chunks
-      const chunks = this.splitTextIntoChunks(text, chunkSize, overlap);
+      // 2. Detectar capítulos e seções (outline do PDF ou heurísticas)
+      const headings = await this.detectStructure(pdfPath, pages);
       
-      // 3. Salvar chunks em arquivos
+      // 3. Dividir em chunks, preservando páginas e estrutura de cada um
+      const chunks = this.splitPagesIntoChunks(pages, chunkSize, overlap, headings);
+      
+      // 4. Salvar chunks em arquivos
       const processedChunks = await this.saveChunksToFiles(chunks, pdfPath, format);
       
       return processedChunks;
@@ -140,6 +654,99 @@ export class PDFProcessor {
     }
   }
 
+  // Versão em streaming: os chunks são escritos conforme gerados, sem acumular em memória
+  async processPDFToChunkFiles(
+    pdfPath: string,
+    options: ChunkingOptions,
+    format: ChunkFormat = 'jsonl'
+  ): Promise<ChunkingSummary> {
+    return this.processDocumentToChunkFiles(pdfPath, options, format);
+  }
+
+  // Processa qualquer formato suportado pelo registro de extratores (PDF, EPUB, HTML, Markdown, texto)
+  async processDocumentToChunkFiles(
+    filePath: string,
+    options: ChunkingOptions,
+    format: ChunkFormat = 'jsonl'
+  ): Promise<ChunkingSummary> {
+    const { chunkSize, overlap, maxChunks, unit = 'characters', parentSize = 0 } = options;
+
+    try {
+      const document = await this.extractors.extract(filePath);
+
+      // Cabeçalhos/rodapés, números de página e hifenização só existem em documentos paginados
+      const cleanup = document.paginated
+        ? options.cleanup
+        : { ...options.cleanup, removeHeadersFooters: false, removePageNumbers: false, joinHyphenation: false };
+      const { pages, report: cleanupReport } = this.cleanPages(document.pages, cleanup);
+      const headings = this.structureDetector.detect(pages, document.outline);
+
+      const unitLabel = unit === 'tokens' ? `tokens (${this.tokenizer.encodingName})` : 'caracteres';
+      console.log(`Dividindo texto em chunks de ${chunkSize} ${unitLabel} com overlap de ${overlap}`);
+      const counts = this.countPageChunks(pages, chunkSize, overlap, unit);
+      console.log(`Texto dividido em ${counts.total} chunks (${counts.withCode} com código)`);
+
+      // Um limite configurado nunca descarta conteúdo: o processamento falha antes de escrever
+      if (maxChunks && counts.total > maxChunks) {
+        throw new Error(
+          `O documento gerou ${counts.total} chunks, acima do limite configurado de ${maxChunks}. ` +
+          'Aumente CHUNK_MAX_CHUNKS (0 = sem limite) ou o tamanho dos chunks.'
+        );
+      }
+
+      const chunks = this.streamPageChunks(pages, chunkSize, overlap, headings, unit, parentSize);
+      const summary = await this.writeChunkStream(
+        document.paginated ? chunks : this.withoutPageNumbers(chunks),
+        counts.total,
+        filePath,
+        format,
+        options,
+        document.format
+      );
+      return { ...summary, cleanupReport };
+    } catch (error) {
+      console.error('Erro no processamento do documento:', error);
+      throw error;
+    }
+  }
+
+  // Processa arquivos e diretórios (todos os documentos suportados dentro deles), um bundle por documento
+  async processSourcesToChunkFiles(
+    inputs: string[],
+    options: ChunkingOptions,
+    format: ChunkFormat = 'jsonl'
+  ): Promise<ChunkingSummary[]> {
+    const sources = this.extractors.resolveSources(inputs);
+    if (sources.length === 0) {
+      throw new Error(
+        `Nenhum documento suportado encontrado em: ${inputs.join(', ')} ` +
+        `(extensões aceitas: ${this.extractors.supportedExtensions().join(', ')})`
+      );
+    }
+
+    const summaries: ChunkingSummary[] = [];
+    for (const source of sources) {
+      summaries.push(await this.processDocumentToChunkFiles(source, options, format));
+    }
+    return summaries;
+  }
+
+  // Em formatos sem páginas, as "páginas" são seções internas e não devem aparecer nos metadados
+  private *withoutPageNumbers(chunks: Iterable<TextChunk>): Generator<TextChunk> {
+    for (const chunk of chunks) {
+      yield {
+        ...chunk,
+        pageStart: undefined,
+        pageEnd: undefined,
+        parent: chunk.parent && { ...chunk.parent, pageStart: undefined, pageEnd: undefined },
+      };
+    }
+  }
+
+  getExtractorRegistry(): ExtractorRegistry {
+    return this.extractors;
+  }
+
   getChunksDirectory(): string {
     return this.chunksDir;
   }
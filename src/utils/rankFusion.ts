@@ -0,0 +1,113 @@
+import { Document } from 'langchain/document';
+
+// rrf: Reciprocal Rank Fusion (só as posições); weighted: soma ponderada dos scores normalizados
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface FusionOptions {
+  method: FusionMethod;
+  // Constante do RRF: quanto maior, menos as primeiras posições pesam em relação às seguintes
+  rrfK: number;
+}
+
+/**
+ * Uma lista de resultados já ordenada (melhor primeiro). O score só é usado
+ * no método weighted e precisa ser "maior é melhor" (distâncias entram
+ * negativas).
+ */
+export interface Ranking {
+  weight: number;
+  hits: { id: string; score: number }[];
+}
+
+/**
+ * Funde as listas num único ranking com scores entre 0 e 1: 1 é o primeiro
+ * lugar em todas as listas (RRF) ou o maior score em todas elas (weighted).
+ * Um item ausente de uma lista não recebe nada dela.
+ */
+export function fuseRankings(rankings: Ranking[], options: FusionOptions): { id: string; score: number }[] {
+  const totalWeight = rankings.reduce((total, ranking) => total + ranking.weight, 0);
+  const fused = new Map<string, number>();
+  if (totalWeight <= 0) {
+    return [];
+  }
+
+  for (const ranking of rankings) {
+    const contributions = options.method === 'rrf'
+      ? rrfContributions(ranking, options.rrfK)
+      : normalizedContributions(ranking);
+    contributions.forEach((value, id) => fused.set(id, (fused.get(id) ?? 0) + ranking.weight * value / totalWeight));
+  }
+
+  return Array.from(fused, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+}
+
+// 1/(k + posição), dividido por 1/(k + 1) para o primeiro lugar valer 1
+function rrfContributions(ranking: Ranking, k: number): Map<string, number> {
+  const contributions = new Map<string, number>();
+  ranking.hits.forEach((hit, index) => {
+    if (!contributions.has(hit.id)) {
+      contributions.set(hit.id, (k + 1) / (k + index + 1));
+    }
+  });
+  return contributions;
+}
+
+// Min-max: o melhor da lista vale 1 e o pior 0 (uma lista de um item só vale 1)
+function normalizedContributions(ranking: Ranking): Map<string, number> {
+  const contributions = new Map<string, number>();
+  const scores = ranking.hits.map(hit => hit.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  for (const hit of ranking.hits) {
+    if (!contributions.has(hit.id)) {
+      contributions.set(hit.id, max > min ? (hit.score - min) / (max - min) : 1);
+    }
+  }
+  return contributions;
+}
+
+// Fusão das buscas textual e vetorial no modo hybrid
+export interface HybridSearchConfig extends FusionOptions {
+  // Peso da busca vetorial na fusão; a textual recebe 1 - vectorWeight
+  vectorWeight: number;
+  // Resultados buscados em cada lista antes da fusão (no mínimo k)
+  candidates: number;
+}
+
+export const DEFAULT_HYBRID_SEARCH: HybridSearchConfig = { method: 'rrf', rrfK: 60, vectorWeight: 0.5, candidates: 50 };
+
+/**
+ * Funde os resultados da busca textual (score BM25, maior é melhor) com os
+ * da vetorial (distância, menor é melhor; ausente no modo lexical) e devolve
+ * os k primeiros com score 1 - score da fusão, na convenção da busca
+ * vetorial. Chunks sem ID são identificados pelo conteúdo.
+ */
+export function fuseSearchResults(
+  lexical: [Document, number][],
+  vector: [Document, number][] | undefined,
+  k: number,
+  settings: HybridSearchConfig
+): [Document, number][] {
+  const documents = new Map<string, Document>();
+  const toRanking = (results: [Document, number][], weight: number, score: (value: number) => number): Ranking => ({
+    weight,
+    hits: results.map(([document, value]) => {
+      const id = document.metadata.id ?? document.pageContent;
+      if (!documents.has(id)) {
+        documents.set(id, document);
+      }
+      return { id, score: score(value) };
+    }),
+  });
+
+  const rankings = vector
+    ? [
+      toRanking(lexical, 1 - settings.vectorWeight, bm25 => bm25),
+      toRanking(vector, settings.vectorWeight, distance => -distance),
+    ]
+    : [toRanking(lexical, 1, bm25 => bm25)];
+  return fuseRankings(rankings, settings)
+    .slice(0, k)
+    .map(({ id, score }) => [documents.get(id)!, 1 - score]);
+}
@@ -0,0 +1,253 @@
+import { CodeBlockDetector, CodeLanguage } from './codeBlockDetector';
+import { ChunkSpan, TextChunker } from './textChunker';
+
+export interface SemanticChunkerOptions {
+  // Calcula os embeddings de vários textos (ex: EmbeddingService.createEmbeddings)
+  embed: (texts: string[]) => Promise<number[][]>;
+  // Tamanho máximo de um chunk, na unidade de lengthFunction
+  maxChunkSize: number;
+  // Um breakpoint só encerra o chunk se ele já tiver este tamanho (padrão: 1/4 do máximo)
+  minChunkSize?: number;
+  // Sentenças comparadas de cada lado de uma fronteira (padrão: 2)
+  windowSize?: number;
+  // Percentil das distâncias entre janelas consecutivas a partir do qual há um breakpoint (padrão: 90)
+  breakpointPercentile?: number;
+  // Mede o tamanho de um trecho (ex: em tokens); padrão: número de caracteres
+  lengthFunction?: (text: string) => number;
+}
+
+interface SentenceUnit {
+  start: number;
+  end: number;
+  code?: CodeLanguage;
+}
+
+// Fim de sentença: pontuação final (com aspas/parênteses de fechamento) seguida de espaço
+const SENTENCE_END = /[.!?…]["'”’)\]]*\s+/g;
+
+/**
+ * Divide o texto em chunks coerentes por assunto: calcula o embedding de
+ * cada sentença e quebra onde a similaridade entre as sentenças antes e
+ * depois de uma fronteira cai, respeitando os tamanhos mínimo e máximo. Listings de código são
+ * tratados como uma única sentença.
+ */
+export class SemanticChunker {
+  private embed: (texts: string[]) => Promise<number[][]>;
+  private maxChunkSize: number;
+  private minChunkSize: number;
+  private windowSize: number;
+  private breakpointPercentile: number;
+  private lengthFunction?: (text: string) => number;
+  private detector: CodeBlockDetector;
+
+  constructor(options: SemanticChunkerOptions) {
+    this.embed = options.embed;
+    this.maxChunkSize = options.maxChunkSize;
+    this.minChunkSize = Math.min(options.minChunkSize ?? Math.floor(options.maxChunkSize / 4), options.maxChunkSize);
+    this.windowSize = Math.max(1, options.windowSize ?? 2);
+    this.breakpointPercentile = Math.min(100, Math.max(0, options.breakpointPercentile ?? 90));
+    this.lengthFunction = options.lengthFunction;
+    this.detector = new CodeBlockDetector();
+  }
+
+  async split(text: string): Promise<ChunkSpan[]> {
+    const units = this.sentenceUnits(text);
+    if (units.length === 0) {
+      return [];
+    }
+
+    const distances = await this.windowDistances(text, units);
+    const threshold = this.percentile(distances, this.breakpointPercentile);
+
+    const spans: ChunkSpan[] = [];
+    let chunkUnits: SentenceUnit[] = [];
+
+    const flush = () => {
+      if (chunkUnits.length > 0) {
+        spans.push(this.createSpan(chunkUnits));
+        chunkUnits = [];
+      }
+    };
+
+    units.forEach((unit, index) => {
+      if (chunkUnits.length > 0 && this.measure(text, chunkUnits[0].start, unit.end) > this.maxChunkSize) {
+        flush();
+      }
+      chunkUnits.push(unit);
+
+      const isBreakpoint = index < distances.length && distances[index] > threshold;
+      if (isBreakpoint && this.measure(text, chunkUnits[0].start, unit.end) >= this.minChunkSize) {
+        flush();
+      }
+    });
+    flush();
+
+    return this.mergeSmallTail(text, spans);
+  }
+
+  // Sentenças de prosa e listings de código inteiros; sentenças maiores que o máximo são subdivididas
+  private sentenceUnits(text: string): SentenceUnit[] {
+    const units: SentenceUnit[] = [];
+    let cursor = 0;
+
+    for (const block of this.detector.detectStream(text)) {
+      units.push(...this.proseSentences(text, cursor, block.start));
+      units.push(...this.sized(text, { start: block.start, end: block.end, code: block.language }));
+      cursor = block.end;
+    }
+    units.push(...this.proseSentences(text, cursor, text.length));
+
+    return units;
+  }
+
+  private proseSentences(text: string, from: number, to: number): SentenceUnit[] {
+    const units: SentenceUnit[] = [];
+    const region = text.slice(from, to);
+
+    // Quebras de parágrafo também encerram sentenças (títulos, itens de lista)
+    const paragraphBreak = /\n[ \t]*\n/g;
+    let paragraphStart = 0;
+    const paragraphs: { start: number; end: number }[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = paragraphBreak.exec(region)) !== null) {
+      paragraphs.push({ start: paragraphStart, end: match.index });
+      paragraphStart = match.index + match[0].length;
+    }
+    paragraphs.push({ start: paragraphStart, end: region.length });
+
+    for (const paragraph of paragraphs) {
+      const sentenceEnd = new RegExp(SENTENCE_END.source, 'g');
+      sentenceEnd.lastIndex = paragraph.start;
+      let sentenceStart = paragraph.start;
+
+      while ((match = sentenceEnd.exec(region)) !== null && match.index < paragraph.end) {
+        const end = Math.min(match.index + match[0].length, paragraph.end);
+        units.push(...this.sized(text, this.trim(text, from + sentenceStart, from + end)));
+        sentenceStart = end;
+      }
+      units.push(...this.sized(text, this.trim(text, from + sentenceStart, from + paragraph.end)));
+    }
+
+    return units;
+  }
+
+  private sized(text: string, unit: SentenceUnit): SentenceUnit[] {
+    if (unit.end <= unit.start) {
+      return [];
+    }
+    if (this.measure(text, unit.start, unit.end) <= this.maxChunkSize) {
+      return [unit];
+    }
+
+    // Sentença (ou listing) maior que o chunk: divide com o chunker de tamanho fixo
+    const chunker = new TextChunker({
+      chunkSize: this.maxChunkSize,
+      overlap: 0,
+      maxChunkSize: this.maxChunkSize,
+      lengthFunction: this.lengthFunction,
+    });
+    return chunker
+      .split(text.slice(unit.start, unit.end))
+      .map(span => ({ start: unit.start + span.start, end: unit.start + span.end, code: unit.code }));
+  }
+
+  // Distância de cosseno, em cada fronteira entre sentenças, entre a média dos embeddings
+  // das sentenças anteriores e a das seguintes (windowSize de cada lado)
+  private async windowDistances(text: string, units: SentenceUnit[]): Promise<number[]> {
+    if (units.length < 2) {
+      return [];
+    }
+
+    const embeddings = await this.embed(units.map(unit => text.slice(unit.start, unit.end)));
+    if (embeddings.length !== units.length) {
+      throw new Error(`Esperados ${units.length} embeddings, recebidos ${embeddings.length}`);
+    }
+
+    const distances: number[] = [];
+    for (let i = 0; i < embeddings.length - 1; i++) {
+      const before = this.mean(embeddings.slice(Math.max(0, i + 1 - this.windowSize), i + 1));
+      const after = this.mean(embeddings.slice(i + 1, i + 1 + this.windowSize));
+      distances.push(1 - this.cosineSimilarity(before, after));
+    }
+    return distances;
+  }
+
+  private mean(vectors: number[][]): number[] {
+    const result = new Array(vectors[0].length).fill(0);
+    for (const vector of vectors) {
+      vector.forEach((value, index) => (result[index] += value / vectors.length));
+    }
+    return result;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+  }
+
+  private percentile(values: number[], percentile: number): number {
+    if (values.length === 0) {
+      return Infinity;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * (percentile / 100);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  // Um último chunk menor que o mínimo é unido ao anterior, se couber no máximo
+  private mergeSmallTail(text: string, spans: ChunkSpan[]): ChunkSpan[] {
+    if (spans.length < 2) {
+      return spans;
+    }
+
+    const last = spans[spans.length - 1];
+    const previous = spans[spans.length - 2];
+    if (
+      this.measure(text, last.start, last.end) >= this.minChunkSize ||
+      this.measure(text, previous.start, last.end) > this.maxChunkSize
+    ) {
+      return spans;
+    }
+
+    return [
+      ...spans.slice(0, -2),
+      {
+        start: previous.start,
+        end: last.end,
+        containsCode: previous.containsCode || last.containsCode,
+        codeLanguage: previous.codeLanguage ?? last.codeLanguage,
+      },
+    ];
+  }
+
+  private createSpan(units: SentenceUnit[]): ChunkSpan {
+    const languages = units.filter(unit => unit.code).map(unit => unit.code as CodeLanguage);
+
+    return {
+      start: units[0].start,
+      end: units[units.length - 1].end,
+      containsCode: languages.length > 0,
+      codeLanguage: languages.find(language => language !== 'unknown') ?? languages[0],
+    };
+  }
+
+  private measure(text: string, start: number, end: number): number {
+    return this.lengthFunction ? this.lengthFunction(text.slice(start, end)) : end - start;
+  }
+
+  private trim(text: string, start: number, end: number): SentenceUnit {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { start, end };
+  }
+}
@@ -0,0 +1,283 @@
+import { CodeBlockDetector, CodeLanguage } from './codeBlockDetector';
+
+export interface ChunkSpan {
+  start: number;
+  end: number;
+  containsCode: boolean;
+  codeLanguage?: CodeLanguage;
+}
+
+export interface TextChunkerOptions {
+  chunkSize: number;
+  overlap: number;
+  // Tamanho máximo de um listing mantido inteiro (padrão: 4x o chunkSize)
+  maxChunkSize?: number;
+  // Mede o tamanho de um trecho (ex: em tokens); padrão: número de caracteres
+  lengthFunction?: (text: string) => number;
+}
+
+// Limite de caracteres por unidade de medida usado nas buscas de corte (tokens raramente passam disso)
+const MAX_CHARS_PER_UNIT = 16;
+
+interface ChunkUnit {
+  start: number;
+  end: number;
+  code?: CodeLanguage;
+}
+
+/**
+ * Divide o texto em chunks sem quebrar listings de código: cada listing vira
+ * uma unidade indivisível junto com o parágrafo que o explica, e a prosa é
+ * dividida por parágrafos e palavras completas.
+ */
+export class TextChunker {
+  private chunkSize: number;
+  private overlap: number;
+  private maxChunkSize: number;
+  private lengthFunction?: (text: string) => number;
+  private detector: CodeBlockDetector;
+
+  constructor(options: TextChunkerOptions) {
+    this.chunkSize = options.chunkSize;
+    this.overlap = Math.max(0, Math.min(options.overlap, options.chunkSize - 1));
+    this.maxChunkSize = Math.max(options.maxChunkSize ?? options.chunkSize * 4, options.chunkSize);
+    this.lengthFunction = options.lengthFunction;
+    this.detector = new CodeBlockDetector();
+  }
+
+  split(text: string): ChunkSpan[] {
+    return Array.from(this.splitStream(text));
+  }
+
+  // Gera os chunks sob demanda, sem manter a lista completa em memória
+  *splitStream(text: string): Generator<ChunkSpan> {
+    let chunkUnits: ChunkUnit[] = [];
+    let chunkStart = -1;
+
+    for (const unit of this.generateUnits(text)) {
+      if (chunkUnits.length > 0 && this.measure(text, chunkStart, unit.end) > this.chunkSize) {
+        yield this.createSpan(text, chunkStart, chunkUnits);
+        chunkStart = this.findOverlapStart(text, chunkUnits, chunkStart, unit);
+        chunkUnits = [];
+      }
+
+      if (chunkStart < 0) {
+        chunkStart = unit.start;
+      }
+      chunkUnits.push(unit);
+    }
+
+    if (chunkUnits.length > 0) {
+      yield this.createSpan(text, chunkStart, chunkUnits);
+    }
+  }
+
+  private *generateUnits(text: string): Generator<ChunkUnit> {
+    // Último parágrafo de prosa, retido até sabermos se ele precede um listing
+    let pending: ChunkUnit | undefined;
+    let cursor = 0;
+
+    for (const block of this.detector.detectStream(text)) {
+      for (const unit of this.proseUnits(text, cursor, block.start)) {
+        if (pending) {
+          yield pending;
+        }
+        pending = unit;
+      }
+
+      // O parágrafo imediatamente anterior explica o listing e fica junto dele
+      let start = block.start;
+      if (pending && this.measure(text, pending.start, block.end) <= this.maxChunkSize) {
+        start = pending.start;
+        pending = undefined;
+      }
+
+      if (pending) {
+        yield pending;
+        pending = undefined;
+      }
+
+      yield* this.codeUnits(text, start, block.end, block.language);
+      cursor = block.end;
+    }
+
+    for (const unit of this.proseUnits(text, cursor, text.length)) {
+      if (pending) {
+        yield pending;
+      }
+      pending = unit;
+    }
+
+    if (pending) {
+      yield pending;
+    }
+  }
+
+  private *proseUnits(text: string, from: number, to: number): Generator<ChunkUnit> {
+    const paragraphBreak = /\n[ \t]*\n/g;
+    paragraphBreak.lastIndex = from;
+    let paragraphStart = from;
+    let match: RegExpExecArray | null;
+
+    while ((match = paragraphBreak.exec(text)) !== null && match.index < to) {
+      yield* this.paragraphUnits(text, paragraphStart, match.index);
+      paragraphStart = match.index + match[0].length;
+    }
+    yield* this.paragraphUnits(text, paragraphStart, to);
+  }
+
+  private *paragraphUnits(text: string, start: number, end: number): Generator<ChunkUnit> {
+    const trimmed = this.trimRange(text, start, Math.max(start, end));
+    if (trimmed.end > trimmed.start) {
+      yield* this.sizedProseUnits(text, trimmed.start, trimmed.end);
+    }
+  }
+
+  // Parágrafos maiores que o chunk são quebrados em palavras completas,
+  // deixando espaço para o overlap do chunk seguinte
+  private *sizedProseUnits(text: string, start: number, end: number): Generator<ChunkUnit> {
+    const pieceSize = this.chunkSize - this.overlap;
+
+    while (this.measure(text, start, end) > pieceSize) {
+      let cut = this.advance(text, start, pieceSize, end);
+      const lastSpace = text.lastIndexOf(' ', cut);
+      if (lastSpace > start + (cut - start) * 0.8) {
+        cut = lastSpace;
+      }
+
+      const piece = this.trimRange(text, start, cut);
+      yield { start: piece.start, end: piece.end };
+      start = this.trimRange(text, cut, end).start;
+    }
+
+    if (end > start) {
+      yield { start, end };
+    }
+  }
+
+  private *codeUnits(text: string, start: number, end: number, language: CodeLanguage): Generator<ChunkUnit> {
+    const size = this.measure(text, start, end);
+    if (size <= this.maxChunkSize) {
+      yield { start, end, code: language };
+      return;
+    }
+
+    // Listings acima do limite máximo só são divididos em fronteiras de linha
+    console.warn(
+      `Listing de código com tamanho ${size} excede o máximo de ${this.maxChunkSize}; dividindo por linhas`
+    );
+
+    while (start < end) {
+      let cut = this.advance(text, start, this.maxChunkSize, end);
+      if (cut < end) {
+        const lineBreak = text.lastIndexOf('\n', cut);
+        if (lineBreak > start) {
+          cut = lineBreak;
+        }
+      }
+
+      yield { start, end: cut, code: language };
+      start = cut;
+      while (start < end && /\s/.test(text[start])) start++;
+    }
+  }
+
+  private findOverlapStart(
+    text: string,
+    previousUnits: ChunkUnit[],
+    previousStart: number,
+    nextUnit: ChunkUnit
+  ): number {
+    const previousEnd = previousUnits[previousUnits.length - 1].end;
+    let candidate = Math.max(this.retreat(text, previousEnd, this.overlap, previousStart), previousStart + 1);
+
+    // Sem espaço para overlap sem estourar o tamanho do próximo chunk
+    if (this.overlap === 0 || this.measure(text, candidate, nextUnit.end) > this.chunkSize) {
+      return nextUnit.start;
+    }
+
+    // O overlap nunca repete parte de um listing de código
+    for (const unit of previousUnits) {
+      if (unit.code && unit.end > candidate) {
+        candidate = Math.max(candidate, unit.end);
+      }
+    }
+
+    // Começar o overlap em uma palavra completa
+    while (candidate < previousEnd && !/\s/.test(text[candidate - 1])) {
+      candidate++;
+    }
+
+    return candidate >= previousEnd ? nextUnit.start : this.trimRange(text, candidate, nextUnit.start).start;
+  }
+
+  private measure(text: string, start: number, end: number): number {
+    return this.lengthFunction ? this.lengthFunction(text.slice(start, end)) : end - start;
+  }
+
+  // Maior posição a partir de "start" (até "limit") cujo trecho cabe em "size"
+  private advance(text: string, start: number, size: number, limit: number): number {
+    if (!this.lengthFunction) {
+      return Math.min(start + size, limit);
+    }
+
+    // Busca binária pelo corte exato, limitada a MAX_CHARS_PER_UNIT caracteres por unidade
+    let low = start;
+    let high = Math.min(start + size * MAX_CHARS_PER_UNIT, limit);
+    if (this.measure(text, start, high) <= size) {
+      return high;
+    }
+
+    while (low < high - 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.measure(text, start, middle) <= size) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    // Sempre avança ao menos um caractere
+    return Math.max(low, Math.min(start + 1, limit));
+  }
+
+  // Menor posição antes de "end" (não antes de "floor") cujo trecho até "end" cabe em "size"
+  private retreat(text: string, end: number, size: number, floor: number): number {
+    if (!this.lengthFunction) {
+      return Math.max(end - size, floor);
+    }
+
+    let low = Math.max(end - size * MAX_CHARS_PER_UNIT, floor);
+    let high = end;
+    if (this.measure(text, low, end) <= size) {
+      return low;
+    }
+
+    while (low < high - 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.measure(text, middle, end) <= size) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return high;
+  }
+
+  private createSpan(text: string, start: number, units: ChunkUnit[]): ChunkSpan {
+    const range = this.trimRange(text, start, units[units.length - 1].end);
+    const languages = units.filter(unit => unit.code).map(unit => unit.code as CodeLanguage);
+
+    return {
+      start: range.start,
+      end: range.end,
+      containsCode: languages.length > 0,
+      codeLanguage: languages.find(language => language !== 'unknown') ?? languages[0],
+    };
+  }
+
+  private trimRange(text: string, start: number, end: number): { start: number; end: number } {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { start, end };
+  }
+}
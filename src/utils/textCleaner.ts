@@ -0,0 +1,260 @@
+export interface TextCleanerOptions {
+  enabled: boolean;
+  // Linhas repetidas no topo/rodapé das páginas (títulos correntes, nome do livro)
+  removeHeadersFooters: boolean;
+  removePageNumbers: boolean;
+  fixLigatures: boolean;
+  // Reúne palavras quebradas com hífen no fim da linha ("exam-\nple" -> "example")
+  joinHyphenation: boolean;
+  collapseWhitespace: boolean;
+  // Em quantas páginas uma linha de topo/rodapé precisa aparecer para ser removida
+  minRepeats: number;
+  // Quantidade de linhas no início e no fim de cada página analisadas como cabeçalho/rodapé
+  edgeLines: number;
+}
+
+export interface CleanupReport {
+  pagesProcessed: number;
+  headerFooterLinesRemoved: number;
+  pageNumbersRemoved: number;
+  ligaturesFixed: number;
+  hyphenationsJoined: number;
+  whitespaceCollapsed: number;
+  // Cabeçalhos/rodapés detectados e em quantas páginas foram removidos
+  repeatedLines: { text: string; pages: number }[];
+}
+
+interface CleanablePage {
+  pageNumber: number;
+  text: string;
+}
+
+export const DEFAULT_CLEANER_OPTIONS: TextCleanerOptions = {
+  enabled: true,
+  removeHeadersFooters: true,
+  removePageNumbers: true,
+  fixLigatures: true,
+  joinHyphenation: true,
+  collapseWhitespace: true,
+  minRepeats: 4,
+  edgeLines: 3,
+};
+
+const LIGATURES: Record<string, string> = {
+  '\uFB00': 'ff',
+  '\uFB01': 'fi',
+  '\uFB02': 'fl',
+  '\uFB03': 'ffi',
+  '\uFB04': 'ffl',
+  '\uFB05': 'st',
+  '\uFB06': 'st',
+};
+const LIGATURE_PATTERN = /[\uFB00-\uFB06]/g;
+
+// Ex: "12", "- 12 -", "Page 12", "Página 12 de 300", "xiv"
+const PAGE_NUMBER_PATTERN = /^(?:[-–—]\s*)?(?:(?:page|página|pág\.?)\s+)?(?:\d{1,4}|[ivxlcdm]{1,7})(?:\s*(?:of|de|\/)\s*\d{1,4})?(?:\s*[-–—])?$/i;
+// Número de página colado a um título corrente: "12 Chapter 2: Lexical Structure"
+const EDGE_PAGE_NUMBER = /^\d{1,4}\s*|\s*\d{1,4}$/g;
+const HYPHENATED_BREAK = /([A-Za-zÀ-ÖØ-öø-ÿ]{2,})-\n[ \t]*([a-zß-öø-ÿ]{2,})/g;
+const MAX_EDGE_LINE_LENGTH = 100;
+
+/**
+ * Normaliza o texto extraído antes do chunking: remove cabeçalhos, rodapés e
+ * números de página repetidos, corrige ligaduras, reúne hifenizações e
+ * compacta espaços. Linhas indentadas (listings de código) não são alteradas.
+ */
+export class TextCleaner {
+  private options: TextCleanerOptions;
+
+  constructor(options: Partial<TextCleanerOptions> = {}) {
+    this.options = { ...DEFAULT_CLEANER_OPTIONS, ...options };
+  }
+
+  getOptions(): TextCleanerOptions {
+    return { ...this.options };
+  }
+
+  clean<T extends CleanablePage>(pages: T[]): { pages: T[]; report: CleanupReport } {
+    const report: CleanupReport = {
+      pagesProcessed: pages.length,
+      headerFooterLinesRemoved: 0,
+      pageNumbersRemoved: 0,
+      ligaturesFixed: 0,
+      hyphenationsJoined: 0,
+      whitespaceCollapsed: 0,
+      repeatedLines: [],
+    };
+
+    if (!this.options.enabled) {
+      return { pages, report };
+    }
+
+    const repeated = this.options.removeHeadersFooters ? this.findRepeatedEdgeLines(pages) : new Set<string>();
+    // Agrupa pela chave normalizada: o mesmo título corrente com números de página diferentes
+    const removedPerLine = new Map<string, { text: string; pages: number }>();
+
+    const cleanedPages = pages.map(page => {
+      let text = this.removeEdgeLines(page.text, repeated, report, removedPerLine);
+
+      if (this.options.fixLigatures) {
+        text = text.replace(LIGATURE_PATTERN, ligature => {
+          report.ligaturesFixed++;
+          return LIGATURES[ligature];
+        });
+      }
+
+      if (this.options.joinHyphenation) {
+        text = this.joinHyphenatedWords(text, report);
+      }
+
+      if (this.options.collapseWhitespace) {
+        text = this.collapseWhitespace(text, report);
+      }
+
+      return { ...page, text };
+    });
+
+    report.repeatedLines = Array.from(removedPerLine.values()).sort((a, b) => b.pages - a.pages);
+
+    return { pages: cleanedPages, report };
+  }
+
+  // Linhas que se repetem nas bordas de várias páginas são títulos correntes ou rodapés
+  private findRepeatedEdgeLines(pages: CleanablePage[]): Set<string> {
+    const occurrences = new Map<string, number>();
+
+    for (const page of pages) {
+      const keys = new Set(
+        this.edgeLineIndexes(page.text.split('\n'))
+          .map(({ line }) => this.normalizeEdgeLine(line))
+          .filter((key): key is string => key !== undefined)
+      );
+      for (const key of keys) {
+        occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+      }
+    }
+
+    return new Set(
+      Array.from(occurrences)
+        .filter(([, count]) => count >= this.options.minRepeats)
+        .map(([key]) => key)
+    );
+  }
+
+  private removeEdgeLines(
+    text: string,
+    repeated: Set<string>,
+    report: CleanupReport,
+    removedPerLine: Map<string, { text: string; pages: number }>
+  ): string {
+    if (repeated.size === 0 && !this.options.removePageNumbers) {
+      return text;
+    }
+
+    const lines = text.split('\n');
+    const toRemove = new Set<number>();
+
+    for (const { index, line } of this.edgeLineIndexes(lines)) {
+      const trimmed = line.trim();
+      const key = this.normalizeEdgeLine(line);
+
+      if (key !== undefined && repeated.has(key)) {
+        toRemove.add(index);
+        report.headerFooterLinesRemoved++;
+        const removed = removedPerLine.get(key) ?? { text: key, pages: 0 };
+        removed.pages++;
+        removedPerLine.set(key, removed);
+      } else if (this.options.removePageNumbers && PAGE_NUMBER_PATTERN.test(trimmed)) {
+        toRemove.add(index);
+        report.pageNumbersRemoved++;
+      }
+    }
+
+    return toRemove.size > 0 ? lines.filter((_, index) => !toRemove.has(index)).join('\n') : text;
+  }
+
+  // Primeiras e últimas linhas não vazias da página
+  private edgeLineIndexes(lines: string[]): { index: number; line: string }[] {
+    const nonEmpty = lines
+      .map((line, index) => ({ index, line }))
+      .filter(({ line }) => line.trim().length > 0);
+
+    const edge = this.options.edgeLines;
+    if (nonEmpty.length <= edge * 2) {
+      return nonEmpty;
+    }
+    return [...nonEmpty.slice(0, edge), ...nonEmpty.slice(-edge)];
+  }
+
+  // Chave de comparação: ignora o número de página e diferenças de caixa/espaços
+  private normalizeEdgeLine(line: string): string | undefined {
+    // Linhas indentadas pertencem a listings de código
+    if (/^(?: {2,}|\t)/.test(line)) {
+      return undefined;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.length > MAX_EDGE_LINE_LENGTH || !/\p{L}{2,}/u.test(trimmed)) {
+      return undefined;
+    }
+
+    const key = trimmed.replace(EDGE_PAGE_NUMBER, '').replace(/\s+/g, ' ').toLowerCase();
+    return key.length > 0 ? key : undefined;
+  }
+
+  private joinHyphenatedWords(text: string, report: CleanupReport): string {
+    return text.replace(HYPHENATED_BREAK, (match, head: string, tail: string, offset: number) => {
+      // Não mexe em listings de código (linhas indentadas)
+      const lineStart = text.lastIndexOf('\n', offset) + 1;
+      if (/^(?: {2,}|\t)/.test(text.slice(lineStart, offset + 1))) {
+        return match;
+      }
+
+      report.hyphenationsJoined++;
+      return head + tail;
+    });
+  }
+
+  private collapseWhitespace(text: string, report: CleanupReport): string {
+    const before = text.length;
+
+    const lines = text
+      .replace(/[\u00A0\u2007\u202F]/g, ' ')
+      .replace(/[\u200B-\u200D\uFEFF]/g, '')
+      .split('\n')
+      .map(line => {
+        const withoutTrailing = line.replace(/\s+$/, '');
+        // A indentação de listings de código é preservada
+        if (/^(?: {2,}|\t)/.test(withoutTrailing)) {
+          return withoutTrailing;
+        }
+        return withoutTrailing.replace(/[ \t]{2,}/g, ' ').trimStart();
+      });
+
+    // Sem trim() no início: a primeira linha pode ser um listing indentado
+    const collapsed = lines
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/^\n+/, '')
+      .replace(/\s+$/, '');
+    report.whitespaceCollapsed += before - collapsed.length;
+    return collapsed;
+  }
+}
+
+export function formatCleanupReport(report: CleanupReport): string {
+  const lines = [
+    `Limpeza do texto (${report.pagesProcessed} páginas):`,
+    `  - Cabeçalhos/rodapés removidos: ${report.headerFooterLinesRemoved}`,
+    `  - Números de página removidos: ${report.pageNumbersRemoved}`,
+    `  - Ligaduras corrigidas: ${report.ligaturesFixed}`,
+    `  - Hifenizações reunidas: ${report.hyphenationsJoined}`,
+    `  - Espaços em excesso removidos: ${report.whitespaceCollapsed} caracteres`,
+  ];
+
+  for (const repeated of report.repeatedLines.slice(0, 5)) {
+    lines.push(`    • "${repeated.text}" (${repeated.pages} páginas)`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,44 @@
+import { Tiktoken, TiktokenEncoding, TiktokenModel, getEncoding, getEncodingNameForModel } from 'js-tiktoken';
+
+// Unidade de medida do tamanho e do overlap dos chunks
+export type ChunkSizeUnit = 'tokens' | 'characters';
+
+// Encoding usado quando o modelo não é conhecido pelo js-tiktoken
+// (é o dos modelos de embedding da OpenAI: ada-002 e text-embedding-3-*)
+const FALLBACK_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+export function getEncodingNameForEmbeddingModel(model: string): TiktokenEncoding {
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    return FALLBACK_ENCODING;
+  }
+}
+
+/**
+ * Tokenizador BPE local (js-tiktoken) correspondente ao modelo de embedding,
+ * usado para medir chunks em tokens sem chamadas à API.
+ */
+export class Tokenizer {
+  readonly encodingName: TiktokenEncoding;
+  private encoding: Tiktoken;
+
+  constructor(model: string) {
+    this.encodingName = getEncodingNameForEmbeddingModel(model);
+
+    // As tabelas BPE são grandes; cada encoding é carregado uma única vez por processo
+    let encoding = encodings.get(this.encodingName);
+    if (!encoding) {
+      encoding = getEncoding(this.encodingName);
+      encodings.set(this.encodingName, encoding);
+    }
+    this.encoding = encoding;
+  }
+
+  count(text: string): number {
+    // Tokens especiais ("<|endoftext|>") no texto do livro são tratados como texto comum
+    return this.encoding.encode(text, [], []).length;
+  }
+}
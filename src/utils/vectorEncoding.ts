@@ -0,0 +1,157 @@
+// Tipo dos valores do campo vetorial no RediSearch.
+// FLOAT16 exige Redis Stack 7.4+ e INT8 exige Redis 8+
+export type VectorDataType = 'FLOAT32' | 'FLOAT16' | 'INT8';
+
+/**
+ * Formato em que os vetores de um índice são gravados. Com dimensions > 0,
+ * só as primeiras dimensões de cada embedding são gravadas (e usadas nas
+ * consultas), o que só preserva a qualidade em modelos treinados para
+ * truncamento, como os text-embedding-3.
+ */
+export interface VectorStorage {
+  type: VectorDataType;
+  // 0 = todas as dimensões do modelo
+  dimensions: number;
+}
+
+export const FULL_PRECISION: VectorStorage = { type: 'FLOAT32', dimensions: 0 };
+
+const BYTES_PER_VALUE: Record<VectorDataType, number> = { FLOAT32: 4, FLOAT16: 2, INT8: 1 };
+
+// Modelos cujos embeddings podem ser truncados (Matryoshka)
+const TRUNCATABLE_MODELS = /^text-embedding-3-/;
+
+export function parseVectorDataType(value: string): VectorDataType {
+  const type = value.toUpperCase();
+  if (!(type in BYTES_PER_VALUE)) {
+    throw new Error(`Tipo de vetor inválido: ${value} (use ${Object.keys(BYTES_PER_VALUE).join(', ')})`);
+  }
+  return type as VectorDataType;
+}
+
+// Aceita "FLOAT16" e "INT8:512" (tipo e dimensões gravadas)
+export function parseVectorStorage(value: string): VectorStorage {
+  const [type, dimensions] = value.split(':');
+  const storage = { type: parseVectorDataType(type), dimensions: parseInt(dimensions ?? '0') };
+  if (isNaN(storage.dimensions) || storage.dimensions < 0) {
+    throw new Error(`Dimensões inválidas em ${value}`);
+  }
+  return storage;
+}
+
+export function formatVectorStorage(storage: VectorStorage): string {
+  return storage.dimensions > 0 ? `${storage.type}:${storage.dimensions}` : storage.type;
+}
+
+export function isFullPrecision(storage: VectorStorage): boolean {
+  return storage.type === 'FLOAT32' && storage.dimensions === 0;
+}
+
+export function sameStorage(a: VectorStorage, b: VectorStorage): boolean {
+  return a.type === b.type && a.dimensions === b.dimensions;
+}
+
+export function supportsTruncation(model: string): boolean {
+  return TRUNCATABLE_MODELS.test(model);
+}
+
+// Dimensões gravadas no índice para embeddings com modelDimensions dimensões
+export function storedDimensions(storage: VectorStorage, modelDimensions: number): number {
+  if (storage.dimensions > modelDimensions) {
+    throw new Error(`Não é possível gravar ${storage.dimensions} dimensões de embeddings com ${modelDimensions}`);
+  }
+  return storage.dimensions || modelDimensions;
+}
+
+export function bytesPerVector(storage: VectorStorage, modelDimensions: number): number {
+  return storedDimensions(storage, modelDimensions) * BYTES_PER_VALUE[storage.type];
+}
+
+/**
+ * Serializa o vetor no formato do campo vetorial (little-endian). No INT8,
+ * cada vetor é escalado para que o maior valor absoluto vire 127: a escala
+ * não é gravada porque a distância do índice (COSINE) não depende dela.
+ */
+export function encodeVector(vector: number[], storage: VectorStorage): Buffer {
+  const values = vector.slice(0, storedDimensions(storage, vector.length));
+
+  switch (storage.type) {
+    case 'FLOAT32':
+      return Buffer.from(new Float32Array(values).buffer);
+    case 'FLOAT16': {
+      const buffer = Buffer.alloc(values.length * 2);
+      values.forEach((value, index) => buffer.writeUInt16LE(toFloat16Bits(value), index * 2));
+      return buffer;
+    }
+    case 'INT8': {
+      const maxAbs = values.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+      const scale = maxAbs > 0 ? 127 / maxAbs : 0;
+      return Buffer.from(new Int8Array(values.map(value => Math.round(value * scale))).buffer);
+    }
+  }
+}
+
+export function decodeVector(buffer: Buffer, type: VectorDataType): number[] {
+  const values: number[] = [];
+  for (let offset = 0; offset < buffer.length; offset += BYTES_PER_VALUE[type]) {
+    values.push(
+      type === 'FLOAT32' ? buffer.readFloatLE(offset)
+        : type === 'FLOAT16' ? fromFloat16Bits(buffer.readUInt16LE(offset))
+        : buffer.readInt8(offset)
+    );
+  }
+  return values;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const float32 = new Float32Array(1);
+const float32Bits = new Uint32Array(float32.buffer);
+
+// Conversão IEEE 754 de 32 para 16 bits, arredondando para o mais próximo
+function toFloat16Bits(value: number): number {
+  float32[0] = value;
+  const bits = float32Bits[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  let mantissa = bits & 0x7fffff;
+
+  if (exponent >= 0x1f) {
+    return sign | 0x7c00;
+  }
+  if (exponent <= 0) {
+    // Subnormal (ou zero, se pequeno demais)
+    if (exponent < -10) {
+      return sign;
+    }
+    mantissa |= 0x800000;
+    const shift = 14 - exponent;
+    return sign | ((mantissa + (1 << (shift - 1))) >> shift);
+  }
+  // Um arredondamento que transborda a mantissa incrementa o expoente, como deve
+  return sign | ((exponent << 10) + ((mantissa + 0x1000) >> 13));
+}
+
+function fromFloat16Bits(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}